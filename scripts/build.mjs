@@ -27,6 +27,10 @@ const buildTargets = [
   {
     entry: path.join(projectRoot, 'src', 'service_worker.ts'),
     outfile: path.join(distDir, 'service_worker.js')
+  },
+  {
+    entry: path.join(projectRoot, 'src', 'offscreen', 'audio.ts'),
+    outfile: path.join(distDir, 'offscreen', 'audio.js')
   }
 ];
 
@@ -73,3 +77,6 @@ writeFileSync(htmlDistPath, htmlContent, 'utf8');
 const cssSrcPath = path.join(popupSrcDir, 'popup.css');
 const cssDistPath = path.join(popupDistDir, 'popup.css');
 cpSync(cssSrcPath, cssDistPath);
+
+const offscreenHtml = readFileSync(path.join(projectRoot, 'src', 'offscreen', 'audio.html'), 'utf8');
+writeFileSync(path.join(distDir, 'offscreen', 'audio.html'), offscreenHtml.replace('./audio.ts', './audio.js'), 'utf8');
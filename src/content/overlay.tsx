@@ -1,9 +1,20 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import { handlePlaySoundMessage, isPlaySoundMessage } from '../shared/audio.js';
-import { FocusModeState, Settings } from '../shared/types.js';
+import { isShowMascotMessage, ShowMascotMessage } from '../shared/mascot.js';
+import { DEFAULT_SETTINGS } from '../shared/defaults.js';
+import { isUserStateChangedMessage } from '../shared/messages.js';
+import { sendRequest } from '../shared/rpc.js';
+import { createSite, resolveSiteForUrl } from '../shared/sites.js';
+import { ActivityKind, ActivitySlot, Settings, Site, UserState } from '../shared/types.js';
+import { evaluateQuietHours, SLOT_WINDOW_MS } from '../service/activity.js';
+import { createFocusRun, FOCUS_EXTEND_MINUTES, focusRemainingMs } from '../service/focus.js';
+import { ActivitySample, ActivitySampleKind, scoreActivitySamples } from '../service/activityQuality.js';
+import { activeFocusRun, createIdleState, describeUserState } from '../service/userState.js';
 
-const SLOT_DURATION_MS = 12_000;
+const SLOT_DURATION_MS = SLOT_WINDOW_MS;
+const MASCOT_BANNER_MS = 6_000;
+const MAX_SAMPLES_PER_SLOT = 240;
 const HEARTBEAT_EVENTS: Array<keyof DocumentEventMap> = [
   'visibilitychange',
   'keydown',
@@ -37,24 +48,14 @@ function resolveAsset(path: string): string {
 
 const LOGO_URL = resolveAsset('assets/icons/icon-32.ico');
 
-const DEFAULT_SETTINGS: Settings = {
-  tz: '+00:00',
-  quietHours: [[22, 7]],
-  notifications: true,
-  audioEnabled: true,
-  focusEntrySound: 'chime-soft',
-  sessionLengthMinutes: 5,
-  focusPresets: [5, 15, 25, 45],
-  savedSites: [],
-  overlayTransparency: 0.8
-};
-
 interface OverlayState {
   settings: Settings | null;
+  sites: Site[];
   isVisible: boolean;
-  isFocusing: boolean;
+  userState: UserState;
   remainingMs: number;
   isCentered: boolean;
+  mascot: ShowMascotMessage['payload'] | null;
 }
 
 type ActivityStatus = 'idle' | 'armed';
@@ -203,6 +204,16 @@ function injectStyles(transparency: number): void {
       color: var(--neutral-100);
       border: 1px solid rgba(255,255,255,0.24);
     }
+    .bychok-overlay__mascot {
+      position: relative;
+      z-index: 1;
+      padding: 10px 12px;
+      border-radius: 16px;
+      background: rgba(46, 244, 209, 0.18);
+      border: 1px solid rgba(46, 244, 209, 0.45);
+      font-size: 14px;
+      line-height: 20px;
+    }
     .bychok-overlay__streak {
       display: flex;
       align-items: center;
@@ -238,38 +249,65 @@ function formatDuration(ms: number): string {
 function Overlay(): JSX.Element {
   const [state, setState] = useState<OverlayState>({
     settings: null,
+    sites: [],
     isVisible: true,
-    isFocusing: false,
+    userState: createIdleState(Date.now()),
     remainingMs: 0,
-    isCentered: true
+    isCentered: true,
+    mascot: null
   });
   const [activity, setActivity] = useState<ActivityStatus>('idle');
   const activityRef = useRef<ActivityStatus>('idle');
   const lastHeartbeatRef = useRef<number>(Date.now());
-  const focusStartedAt = useRef<number | null>(null);
   const heartbeatTimer = useRef<number | null>(null);
-  const siteId = useMemo(() => window.location.hostname || 'unknown-site', []);
+  const samplesRef = useRef<ActivitySample[]>([]);
+  const hostname = useMemo(() => window.location.hostname || 'unknown-site', []);
   const sessionMinutes = state.settings?.sessionLengthMinutes ?? DEFAULT_SETTINGS.sessionLengthMinutes;
-  const savedSites = state.settings?.savedSites ?? [];
-  const isSaved = useMemo(() => savedSites.includes(siteId), [savedSites, siteId]);
+  const idleThresholdMs = (state.settings?.idleThresholdSeconds ?? DEFAULT_SETTINGS.idleThresholdSeconds) * 1000;
+  const site = useMemo(() => resolveSiteForUrl(window.location.href, state.sites), [state.sites]);
+  const siteId = site?.id ?? hostname;
+  const isSaved = site !== null;
+  const mediaTracking = site?.mediaTracking === true;
+  const run = activeFocusRun(state.userState);
+  const view = useMemo(
+    () =>
+      describeUserState(
+        state.userState,
+        state.settings ? evaluateQuietHours(state.settings, new Date()).withinQuietHours : false
+      ),
+    [state.userState, state.settings]
+  );
 
   useEffect(() => {
     async function fetchSettings() {
-      const response = await chrome.runtime.sendMessage({ type: 'settings:read' });
-      if (response?.ok && response.settings) {
-        const merged: Settings = {
-          ...DEFAULT_SETTINGS,
-          ...response.settings,
-          savedSites: response.settings.savedSites ?? []
-        };
+      const response = await sendRequest('settings:read');
+      if (response.ok) {
+        const merged: Settings = { ...DEFAULT_SETTINGS, ...response.settings };
         injectStyles(merged.overlayTransparency);
         setState((prev) => ({ ...prev, settings: merged }));
       } else {
+        console.error('Settings read failed', response.error);
         injectStyles(DEFAULT_SETTINGS.overlayTransparency);
         setState((prev) => ({ ...prev, settings: { ...DEFAULT_SETTINGS } }));
       }
     }
-    fetchSettings().catch((error) => console.error('Settings read failed', error));
+    async function fetchSites() {
+      const response = await sendRequest('sites:read');
+      if (response.ok) {
+        setState((prev) => ({ ...prev, sites: response.sites }));
+      } else {
+        console.error('Sites read failed', response.error);
+      }
+    }
+    async function fetchUserState() {
+      const response = await sendRequest('user-state:read');
+      if (response.ok) {
+        applyUserState(response.state);
+      }
+    }
+    void fetchSettings();
+    void fetchSites();
+    void fetchUserState();
   }, []);
 
   useEffect(() => {
@@ -288,7 +326,11 @@ function Overlay(): JSX.Element {
 
     const listener: Parameters<typeof chrome.runtime.onMessage.addListener>[0] = (message) => {
       if (isPlaySoundMessage(message)) {
-        handlePlaySoundMessage(message);
+        void handlePlaySoundMessage(message);
+      } else if (isShowMascotMessage(message)) {
+        setState((prev) => ({ ...prev, isVisible: true, mascot: message.payload }));
+      } else if (isUserStateChangedMessage(message)) {
+        applyUserState(message.payload.state);
       }
     };
 
@@ -299,14 +341,25 @@ function Overlay(): JSX.Element {
   }, []);
 
   useEffect(() => {
-    function markActive() {
+    let lastScrollY = window.scrollY;
+
+    function markActive(event: Event) {
+      const sample = toActivitySample(event, lastScrollY);
+      lastScrollY = window.scrollY;
+      if (samplesRef.current.length < MAX_SAMPLES_PER_SLOT) {
+        samplesRef.current.push(sample);
+      }
+      // Synthetic events are still sampled so the slot can be flagged, but never arm it.
+      if (!event.isTrusted) {
+        return;
+      }
       lastHeartbeatRef.current = Date.now();
       activityRef.current = 'armed';
       setActivity('armed');
     }
 
     const listeners: Array<[keyof DocumentEventMap, EventListener]> = HEARTBEAT_EVENTS.map((eventName) => {
-      const handler = () => markActive();
+      const handler = (event: Event) => markActive(event);
       document.addEventListener(eventName, handler, { passive: true });
       return [eventName, handler];
     });
@@ -322,16 +375,17 @@ function Overlay(): JSX.Element {
         return;
       }
       const now = Date.now();
-      if (now - lastHeartbeatRef.current > 30_000) {
-        activityRef.current = 'idle';
-        setActivity('idle');
-        return;
-      }
-      if (activityRef.current === 'armed') {
-        sendHeartbeat(siteId);
-        activityRef.current = 'idle';
-        setActivity('idle');
+      const samples = samplesRef.current;
+      samplesRef.current = [];
+      const hasInput = activityRef.current === 'armed' && now - lastHeartbeatRef.current <= idleThresholdMs;
+      if (hasInput) {
+        sendHeartbeat(hostname, 'input', scoreActivitySamples(samples).confidence);
+      } else if (mediaTracking && isMediaPlaying()) {
+        // Lectures play without input; the worker still checks the site's opt-in.
+        sendHeartbeat(hostname, 'media');
       }
+      activityRef.current = 'idle';
+      setActivity('idle');
     }, SLOT_DURATION_MS);
 
     return () => {
@@ -339,83 +393,103 @@ function Overlay(): JSX.Element {
         window.clearInterval(heartbeatTimer.current);
       }
     };
-  }, [siteId]);
+  }, [hostname, idleThresholdMs, mediaTracking]);
+
+  // The worker's user state is the source of truth; local updates are only optimistic.
+  function applyUserState(userState: UserState) {
+    const run = activeFocusRun(userState);
+    setState((prev) => ({
+      ...prev,
+      userState,
+      remainingMs: run ? focusRemainingMs(run, Date.now()) : 0,
+      isCentered: run ? false : prev.isCentered
+    }));
+  }
 
   const handleStartFocus = async () => {
     const settings = state.settings ?? DEFAULT_SETTINGS;
-    const durationMinutes = settings.sessionLengthMinutes;
-    const payload: FocusModeState = {
-      siteId,
-      startedAt: Date.now(),
-      durationMinutes
-    };
-    focusStartedAt.current = payload.startedAt;
-    setState((prev) => ({ ...prev, isFocusing: true, remainingMs: durationMinutes * 60_000, isCentered: false }));
-    await chrome.runtime.sendMessage({ type: 'focus-mode:start', payload });
+    const payload = { siteId, durationMinutes: settings.sessionLengthMinutes };
+    // Shown right away; the worker stamps the real start time and its state replaces this one.
+    const startedAt = Date.now();
+    applyUserState({ name: 'focus', since: startedAt, run: createFocusRun({ ...payload, startedAt }) });
+    const response = await sendRequest('focus-mode:start', payload);
+    if (response.ok) {
+      applyUserState(response.state);
+    }
   };
 
   const handleStopFocus = async () => {
-    focusStartedAt.current = null;
-    setState((prev) => ({ ...prev, isFocusing: false, remainingMs: 0 }));
-    await chrome.runtime.sendMessage({ type: 'focus-mode:stop' });
+    applyUserState(createIdleState(Date.now()));
+    const response = await sendRequest('focus-mode:stop');
+    if (response.ok) {
+      applyUserState(response.state);
+    }
+  };
+
+  const handleTogglePause = async () => {
+    const response = run?.pausedAt == null ? await sendRequest('focus-mode:pause') : await sendRequest('focus-mode:resume');
+    if (response.ok) {
+      applyUserState(response.state);
+    } else if (response.error.code === 'no-focus-run') {
+      await refreshUserState();
+    }
+  };
+
+  const handleExtendFocus = async () => {
+    const response = await sendRequest('focus-mode:extend', { minutes: FOCUS_EXTEND_MINUTES });
+    if (response.ok) {
+      applyUserState(response.state);
+    } else if (response.error.code === 'no-focus-run') {
+      await refreshUserState();
+    }
   };
 
+  async function refreshUserState() {
+    const response = await sendRequest('user-state:read');
+    if (response.ok) {
+      applyUserState(response.state);
+    }
+  }
+
   const handleToggleSaved = async () => {
-    const previousSettings = state.settings;
-    const sourceSettings = previousSettings ?? DEFAULT_SETTINGS;
-    const nextSet = new Set(sourceSettings.savedSites ?? []);
-    if (nextSet.has(siteId)) {
-      nextSet.delete(siteId);
+    const previousSites = state.sites;
+    const created = createSite({ pattern: hostname.replace(/^www\./, ''), pathPrefix: null });
+    const optimisticSites = site ? previousSites.filter((item) => item.id !== site.id) : [...previousSites, created];
+    setState((prev) => ({ ...prev, sites: optimisticSites }));
+    const response = site ? await sendRequest('sites:remove', { id: site.id }) : await sendRequest('sites:upsert', created);
+    if (response.ok) {
+      setState((prev) => ({ ...prev, sites: response.sites }));
     } else {
-      nextSet.add(siteId);
-    }
-    const nextSavedSites = Array.from(nextSet).sort((a, b) => a.localeCompare(b));
-    const optimisticSettings = previousSettings
-      ? { ...previousSettings, savedSites: nextSavedSites }
-      : { ...DEFAULT_SETTINGS, savedSites: nextSavedSites };
-    setState((prev) => ({ ...prev, settings: optimisticSettings }));
-    try {
-      const response = await chrome.runtime.sendMessage({ type: 'settings:update', payload: { savedSites: nextSavedSites } });
-      if (response?.ok && response.settings) {
-        const merged: Settings = {
-          ...DEFAULT_SETTINGS,
-          ...response.settings,
-          savedSites: response.settings.savedSites ?? nextSavedSites
-        };
-        injectStyles(merged.overlayTransparency);
-        setState((prev) => ({ ...prev, settings: merged }));
-      }
-    } catch (error) {
-      console.error('Failed to update saved sites', error);
-      if (previousSettings) {
-        injectStyles(previousSettings.overlayTransparency);
-        setState((prev) => ({ ...prev, settings: previousSettings }));
-      } else {
-        injectStyles(DEFAULT_SETTINGS.overlayTransparency);
-        setState((prev) => ({ ...prev, settings: { ...DEFAULT_SETTINGS } }));
-      }
+      console.error('Failed to update saved sites', response.error);
+      setState((prev) => ({ ...prev, sites: previousSites }));
     }
   };
 
   useEffect(() => {
-    if (!state.isFocusing) {
+    if (!state.mascot) {
       return;
     }
+    const timer = window.setTimeout(() => setState((prev) => ({ ...prev, mascot: null })), MASCOT_BANNER_MS);
+    return () => window.clearTimeout(timer);
+  }, [state.mascot]);
+
+  useEffect(() => {
+    if (!run || run.pausedAt !== null) {
+      return;
+    }
+    // The service worker ends the run; the overlay only mirrors the countdown.
     const timer = window.setInterval(() => {
-      if (!focusStartedAt.current) return;
-      const elapsed = Date.now() - focusStartedAt.current;
-      const total = (state.settings?.sessionLengthMinutes ?? 5) * 60_000;
-      setState((prev) => ({ ...prev, remainingMs: Math.max(0, total - elapsed) }));
+      setState((prev) => ({ ...prev, remainingMs: focusRemainingMs(run, Date.now()) }));
     }, 1_000);
     return () => window.clearInterval(timer);
-  }, [state.isFocusing, state.settings]);
+  }, [run]);
 
-  if (!state.isVisible) {
+  if (!state.isVisible || site?.overlayEnabled === false) {
     return <></>;
   }
 
   return (
-    <div className="bychok-overlay__card">
+    <div className="bychok-overlay__card" data-user-state={state.userState.name} data-animation={view.animation}>
       <header className="bychok-overlay__header">
         <div className="bychok-overlay__brand">
           <img
@@ -429,7 +503,7 @@ function Overlay(): JSX.Element {
             <p style={{ fontSize: '13px', margin: 0, color: TOKENS.brandSecondary, letterSpacing: '0.08em', textTransform: 'uppercase' }}>
               Focus vibe
             </p>
-            <h2 style={{ fontSize: '20px', lineHeight: '26px', margin: 0 }}>На {siteId}</h2>
+            <h2 style={{ fontSize: '20px', lineHeight: '26px', margin: 0 }}>На {hostname}</h2>
           </div>
         </div>
         <div className="bychok-overlay__header-actions">
@@ -443,15 +517,19 @@ function Overlay(): JSX.Element {
             {isSaved ? 'В списке' : 'Сохранить'}
           </button>
           <span className="bychok-overlay__timer" aria-live="polite">
-            {state.isFocusing ? formatDuration(state.remainingMs) : `${sessionMinutes}:00`}
+            {run ? formatDuration(state.remainingMs) : `${sessionMinutes}:00`}
           </span>
         </div>
       </header>
       <section aria-live="polite">
-        {state.isFocusing ? (
+        {run?.pausedAt != null ? (
+          <p style={{ margin: 0 }}>Пауза. Таймер ждёт — жми «Дальше», когда будешь готов.</p>
+        ) : run ? (
           <p style={{ margin: 0 }}>
-            Поток пошёл! Держим {sessionMinutes}-минутный спринт, Бычок уже считает секунды.
+            Поток пошёл! Держим {run.durationMinutes}-минутный спринт, Бычок уже считает секунды.
           </p>
+        ) : state.userState.name === 'success' || state.userState.name === 'warning' || state.userState.name === 'frozen' ? (
+          <p style={{ margin: 0 }}>{view.caption}</p>
         ) : (
           <p style={{ margin: 0 }}>
             Жми «Гоу» — Bychok зафиксирует вкладку и подаст сигнал, когда таймер дойдёт до нуля.
@@ -460,14 +538,32 @@ function Overlay(): JSX.Element {
         )}
       </section>
       <div className="bychok-overlay__actions">
-        {state.isFocusing ? (
-          <button
-            type="button"
-            className="bychok-button bychok-button--ghost"
-            onClick={handleStopFocus}
-          >
-            Стоп
-          </button>
+        {run ? (
+          <>
+            <button
+              type="button"
+              className="bychok-button bychok-button--primary"
+              onClick={() => void handleTogglePause()}
+              aria-pressed={run.pausedAt !== null}
+            >
+              {run.pausedAt !== null ? 'Дальше' : 'Пауза'}
+            </button>
+            <button
+              type="button"
+              className="bychok-button bychok-button--ghost"
+              onClick={() => void handleExtendFocus()}
+              aria-label={`Добавить ${FOCUS_EXTEND_MINUTES} минут`}
+            >
+              +{FOCUS_EXTEND_MINUTES} мин
+            </button>
+            <button
+              type="button"
+              className="bychok-button bychok-button--ghost"
+              onClick={handleStopFocus}
+            >
+              Стоп
+            </button>
+          </>
         ) : (
           <button
             type="button"
@@ -486,6 +582,16 @@ function Overlay(): JSX.Element {
           Скрыть
         </button>
       </div>
+      {state.mascot ? (
+        <div
+          className="bychok-overlay__mascot"
+          role="status"
+          data-animation={state.mascot.animation}
+          data-lottie-src={state.mascot.url}
+        >
+          {state.mascot.caption}
+        </div>
+      ) : null}
       <footer className="bychok-overlay__streak">
         <span>Слот: 12 с активности</span>
         <span aria-live="polite">
@@ -497,14 +603,49 @@ function Overlay(): JSX.Element {
   );
 }
 
-async function sendHeartbeat(siteId: string): Promise<void> {
-  const slot = {
+function toActivitySample(event: Event, lastScrollY: number): ActivitySample {
+  const sample: ActivitySample = { kind: event.type as ActivitySampleKind, at: Date.now(), trusted: event.isTrusted };
+  if (event instanceof KeyboardEvent) {
+    return { ...sample, key: event.code, repeat: event.repeat };
+  }
+  if (event instanceof WheelEvent) {
+    return { ...sample, delta: event.deltaY };
+  }
+  if (event instanceof MouseEvent) {
+    return { ...sample, x: event.screenX, y: event.screenY };
+  }
+  if (event.type === 'scroll') {
+    return { ...sample, delta: window.scrollY - lastScrollY };
+  }
+  return sample;
+}
+
+/** True while an audible video or audio element is playing; muted autoplay does not count. */
+function isMediaPlaying(): boolean {
+  return Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio')).some(
+    (media) =>
+      !media.paused &&
+      !media.ended &&
+      !media.muted &&
+      media.volume > 0 &&
+      media.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA
+  );
+}
+
+async function sendHeartbeat(siteId: string, kind: ActivityKind, confidence?: number): Promise<void> {
+  // The service worker resolves the matching Site from the URL; siteId is the hostname fallback.
+  const slot: ActivitySlot = {
+    kind,
     siteId,
     url: window.location.href,
     durationSec: SLOT_DURATION_MS / 1000,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    confidence
   };
-  await chrome.runtime.sendMessage({ type: 'activity-slot', payload: slot });
+  const response = await sendRequest('activity-slot', slot);
+  if (!response.ok) {
+    console.warn('Activity slot rejected', response.error);
+  }
 }
 
 function initOverlay(): void {
@@ -0,0 +1,13 @@
+import { handlePlaySoundMessage, isPlaySoundMessage, PlaySoundResponse } from '../shared/audio.js';
+
+// Offscreen document owned by the service worker: it plays sounds whether or not a tab is open.
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (!isPlaySoundMessage(message)) {
+    return false;
+  }
+  void handlePlaySoundMessage(message).then((played) => {
+    const response: PlaySoundResponse = { played };
+    sendResponse(response);
+  });
+  return true;
+});
@@ -1,25 +1,30 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { SOUND_LIBRARY } from '../shared/audio.js';
-import { Settings } from '../shared/types.js';
-
-const AUDIO_OPTIONS = [
-  { id: 'chime-soft', label: 'Ламповый дзынь' },
-  { id: 'pulse-air', label: 'Пульс неона' },
-  { id: 'mute', label: 'Только вибра' }
+import { DEFAULT_SETTINGS } from '../shared/defaults.js';
+import { isUserStateChangedMessage } from '../shared/messages.js';
+import { sendRequest } from '../shared/rpc.js';
+import { createSite, normalizeSiteInput } from '../shared/sites.js';
+import { getZonedParts, isValidTimeZone, resolveBrowserTimeZone } from '../shared/timezone.js';
+import { QuietHoursRange, Settings, Site, UserState } from '../shared/types.js';
+import { FOCUS_MINUTES_RANGE, IDLE_THRESHOLD_RANGE, isFocusMinutes, isIdleThreshold } from '../shared/validation.js';
+import { evaluateQuietHours } from '../service/activity.js';
+import { describeUserState } from '../service/userState.js';
+import { DataTransferCard } from './DataTransferCard.js';
+import { SoundsCard } from './SoundsCard.js';
+import { StatsCard } from './StatsCard.js';
+import { StorageCard } from './StorageCard.js';
+import { StreaksCard } from './StreaksCard.js';
+
+// Monday-first order for display; values follow Date#getDay (0 = Sunday).
+const WEEKDAYS = [
+  { value: 1, label: 'Пн' },
+  { value: 2, label: 'Вт' },
+  { value: 3, label: 'Ср' },
+  { value: 4, label: 'Чт' },
+  { value: 5, label: 'Пт' },
+  { value: 6, label: 'Сб' },
+  { value: 0, label: 'Вс' }
 ];
 
-const DEFAULT_SETTINGS: Settings = {
-  tz: '+00:00',
-  quietHours: [[22, 7]],
-  notifications: true,
-  audioEnabled: true,
-  focusEntrySound: 'chime-soft',
-  sessionLengthMinutes: 5,
-  focusPresets: [5, 15, 25, 45],
-  savedSites: [],
-  overlayTransparency: 0.8
-};
-
 const LOGO_URL = new URL('../../assets/icons/icon-128.ico', import.meta.url).href;
 
 const glassCardBase: React.CSSProperties = {
@@ -54,67 +59,200 @@ const cardVariants = {
   }
 } satisfies Record<'lilac' | 'cyan' | 'ink' | 'mint', React.CSSProperties>;
 
-function useSettings(): [Settings, (next: Partial<Settings>) => Promise<void>] {
+type SettingsUpdater = (next: Partial<Settings>, options?: { awaitWorker?: boolean }) => Promise<void>;
+
+function useSettings(revision: number): [Settings, SettingsUpdater, (settings: Settings) => void] {
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
 
   useEffect(() => {
     async function load() {
-      const response = await chrome.runtime.sendMessage({ type: 'settings:read' });
-      if (response?.ok && response.settings) {
+      const response = await sendRequest('settings:read');
+      if (response.ok) {
         setSettings({ ...DEFAULT_SETTINGS, ...response.settings });
+      } else {
+        console.error('Failed to load settings', response.error);
       }
     }
-    load().catch((error) => console.error('Failed to load settings', error));
-  }, []);
+    void load();
+  }, [revision]);
+
+  // Applied right away unless `awaitWorker` asks to wait until the worker accepts the patch.
+  const update: SettingsUpdater = async (next, { awaitWorker = false } = {}) => {
+    if (!awaitWorker) {
+      setSettings((current) => ({ ...current, ...next }));
+    }
+    const response = await sendRequest('settings:update', next);
+    if (!response.ok) {
+      console.error('Failed to update settings', response.error);
+    } else if (awaitWorker) {
+      setSettings((current) => ({ ...current, ...next }));
+    }
+  };
+
+  // For settings the worker already saved and sent back, e.g. after removing a sound.
+  const replace = (next: Settings) => setSettings({ ...DEFAULT_SETTINGS, ...next });
+
+  return [settings, update, replace];
+}
+
+function useSites(revision: number): [Site[], (site: Site) => Promise<void>, (id: string) => Promise<void>] {
+  const [sites, setSites] = useState<Site[]>([]);
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('sites:read');
+      if (response.ok) {
+        setSites(response.sites);
+      } else {
+        console.error('Failed to load sites', response.error);
+      }
+    }
+    void load();
+  }, [revision]);
+
+  const upsert = async (site: Site) => {
+    setSites((prev) => {
+      const exists = prev.some((item) => item.id === site.id);
+      return exists ? prev.map((item) => (item.id === site.id ? site : item)) : [...prev, site];
+    });
+    const response = await sendRequest('sites:upsert', site);
+    if (response.ok) {
+      setSites(response.sites);
+    }
+  };
 
-  const update = async (next: Partial<Settings>) => {
-    const pending = { ...settings, ...next };
-    setSettings(pending);
-    await chrome.runtime.sendMessage({ type: 'settings:update', payload: next });
+  const remove = async (id: string) => {
+    setSites((prev) => prev.filter((item) => item.id !== id));
+    const response = await sendRequest('sites:remove', { id });
+    if (response.ok) {
+      setSites(response.sites);
+    }
   };
 
-  return [settings, update];
+  return [sites, upsert, remove];
+}
+
+function useUserState(): UserState | null {
+  const [userState, setUserState] = useState<UserState | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('user-state:read');
+      if (response.ok) {
+        setUserState(response.state);
+      }
+    }
+    void load();
+    const listener = (message: unknown) => {
+      if (isUserStateChangedMessage(message)) {
+        setUserState(message.payload.state);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  return userState;
 }
 
 export function PopupApp(): JSX.Element {
-  const [settings, updateSettings] = useSettings();
+  // Bumped after an import so every hook re-reads from the service worker.
+  const [dataRevision, setDataRevision] = useState(0);
+  const [settings, updateSettings, replaceSettings] = useSettings(dataRevision);
+  const [sites, upsertSite, removeSite] = useSites(dataRevision);
+  const userState = useUserState();
+  const userStateView = useMemo(
+    () => (userState ? describeUserState(userState, evaluateQuietHours(settings, new Date()).withinQuietHours) : null),
+    [userState, settings]
+  );
+  const sortedSites = useMemo(() => [...sites].sort((a, b) => a.id.localeCompare(b.id)), [sites]);
   const [newSiteValue, setNewSiteValue] = useState('');
+  const [tzDraft, setTzDraft] = useState<string | null>(null);
+  const [idleDraft, setIdleDraft] = useState<string | null>(null);
+  const [sessionLengthDraft, setSessionLengthDraft] = useState<string | null>(null);
+  const timeZoneOptions = useMemo(() => listTimeZones(), []);
+  const tzValue = tzDraft ?? settings.tz;
+  const isTzDraftValid = isValidTimeZone(tzValue.trim());
   const quietHoursString = useMemo(
-    () =>
-      settings.quietHours
-        .map(([start, end]) => `${formatHour(start)} – ${formatHour(end)}`)
-        .join(', '),
+    () => settings.quietHours.map((range) => formatQuietRange(range)).join(', '),
     [settings.quietHours]
   );
-  const audioChoices = useMemo(
-    () => AUDIO_OPTIONS.filter((option) => option.id === 'mute' || option.id in SOUND_LIBRARY),
-    []
-  );
+  const quietStatus = useMemo(() => describeQuietStatus(settings), [settings]);
 
   const handlePresetSelect = (value: number) => {
+    setSessionLengthDraft(null);
     void updateSettings({ sessionLengthMinutes: value });
   };
 
-  const handleQuietHoursChange = (index: number, position: 'start' | 'end', value: number) => {
-    const next = settings.quietHours.map((range, i) =>
-      i === index ? (position === 'start' ? [value, range[1]] : [range[0], value]) : range
-    ) as Settings['quietHours'];
+  const sessionLengthValue = sessionLengthDraft ?? String(settings.sessionLengthMinutes);
+  const isSessionLengthDraftValid = isFocusMinutes(Number(sessionLengthValue));
+
+  const commitSessionLength = async () => {
+    const next = Number(sessionLengthValue);
+    if (!isFocusMinutes(next)) {
+      return;
+    }
+    if (next !== settings.sessionLengthMinutes) {
+      await updateSettings({ sessionLengthMinutes: next }, { awaitWorker: true });
+    }
+    setSessionLengthDraft(null);
+  };
+
+  const handleQuietHoursChange = (index: number, position: 'start' | 'end', value: string) => {
+    const minutes = parseTimeInput(value);
+    if (minutes === null) {
+      return;
+    }
+    const next = settings.quietHours.map((range, i) => (i === index ? { ...range, [position]: minutes } : range));
     void updateSettings({ quietHours: next });
   };
 
+  const handleQuietDayToggle = (index: number, weekday: number) => {
+    const range = settings.quietHours[index];
+    // An empty list means "every day", so the first toggle starts from all days.
+    const current = range.days.length === 0 ? WEEKDAYS.map((day) => day.value) : range.days;
+    const days = current.includes(weekday) ? current.filter((day) => day !== weekday) : [...current, weekday];
+    // Dropping the last day would save an empty list and turn the range on for every day.
+    if (days.length === 0) {
+      return;
+    }
+    const updated = { ...range, days: days.length === WEEKDAYS.length ? [] : days.sort((a, b) => a - b) };
+    void updateSettings({ quietHours: settings.quietHours.map((item, i) => (i === index ? updated : item)) });
+  };
+
   const handleAddQuietRange = () => {
-    const next = [...settings.quietHours, [0, 0] as [number, number]];
+    const next: QuietHoursRange[] = [...settings.quietHours, { start: 0, end: 0, days: [] }];
     void updateSettings({ quietHours: next });
   };
 
   const handleRemoveQuietRange = (index: number) => {
-    const next = settings.quietHours.filter((_, i) => i !== index) as Settings['quietHours'];
+    const next = settings.quietHours.filter((_, i) => i !== index);
     void updateSettings({ quietHours: next });
   };
 
-  const handleAudioChange = (audioId: string) => {
-    const audioEnabled = audioId !== 'mute';
-    void updateSettings({ focusEntrySound: audioId === 'mute' ? null : audioId, audioEnabled });
+  const commitTimeZone = () => {
+    const next = tzValue.trim();
+    if (!isValidTimeZone(next)) {
+      return;
+    }
+    setTzDraft(null);
+    if (next !== settings.tz) {
+      void updateSettings({ tz: next });
+    }
+  };
+
+  const idleValue = idleDraft ?? String(settings.idleThresholdSeconds);
+  const isIdleDraftValid = isIdleThreshold(Number(idleValue));
+
+  const commitIdleThreshold = () => {
+    const next = Number(idleValue);
+    if (!isIdleThreshold(next)) {
+      return;
+    }
+    setIdleDraft(null);
+    if (next !== settings.idleThresholdSeconds) {
+      void updateSettings({ idleThresholdSeconds: next });
+    }
   };
 
   const isAddDisabled = newSiteValue.trim().length === 0;
@@ -126,16 +264,26 @@ export function PopupApp(): JSX.Element {
     if (!normalized) {
       return;
     }
-    if (settings.savedSites.includes(normalized)) {
+    const site = createSite(normalized, { dailyGoalMin: settings.sessionLengthMinutes });
+    if (sites.some((item) => item.id === site.id)) {
+      return;
+    }
+    void upsertSite(site);
+  };
+
+  const handleSiteGoalChange = (site: Site, value: number) => {
+    if (!Number.isFinite(value) || value < 1) {
       return;
     }
-    const next = [...settings.savedSites, normalized].sort();
-    void updateSettings({ savedSites: next });
+    void upsertSite({ ...site, dailyGoalMin: Math.min(180, Math.round(value)) });
+  };
+
+  const handleSiteOverlayToggle = (site: Site, overlayEnabled: boolean) => {
+    void upsertSite({ ...site, overlayEnabled });
   };
 
-  const handleSavedSiteRemove = (siteId: string) => {
-    const next = settings.savedSites.filter((site) => site !== siteId);
-    void updateSettings({ savedSites: next });
+  const handleSiteMediaToggle = (site: Site, mediaTracking: boolean) => {
+    void upsertSite({ ...site, mediaTracking });
   };
 
   return (
@@ -153,6 +301,17 @@ export function PopupApp(): JSX.Element {
         <p style={{ margin: 0, fontSize: 13, color: '#445' }}>
           Чтобы начать отсчёт, просто открой вкладку и жми «Гоу» в оверлее. Бычок сам зафиксирует сайт и пошлёт уведомление в конце.
         </p>
+        {userState && userStateView ? (
+          <p
+            role="status"
+            aria-live="polite"
+            data-user-state={userState.name}
+            data-animation={userStateView.animation}
+            style={{ margin: 0, fontSize: 14, fontWeight: 600, color: '#4331d8' }}
+          >
+            {userStateView.caption}
+          </p>
+        ) : null}
       </header>
 
       <section aria-labelledby="session-length-title" style={cardVariants.lilac}>
@@ -163,10 +322,16 @@ export function PopupApp(): JSX.Element {
         <input
           id="session-length"
           type="number"
-          min={1}
-          max={180}
-          value={settings.sessionLengthMinutes}
-          onChange={(event) => handlePresetSelect(Number(event.target.value))}
+          min={FOCUS_MINUTES_RANGE.min}
+          max={FOCUS_MINUTES_RANGE.max}
+          value={sessionLengthValue}
+          onChange={(event) => setSessionLengthDraft(event.target.value)}
+          onBlur={() => void commitSessionLength()}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              void commitSessionLength();
+            }
+          }}
           style={{
             width: '100%',
             padding: '14px 16px',
@@ -177,10 +342,13 @@ export function PopupApp(): JSX.Element {
             fontWeight: 600,
             color: '#16192e'
           }}
+          aria-invalid={!isSessionLengthDraftValid}
           aria-describedby="session-length-helper"
         />
-        <p id="session-length-helper" style={{ margin: 0, fontSize: 12, color: '#2a2f4d' }}>
-          Пресеты ниже сохраняются, так что можно быстро прыгать между спринтами.
+        <p id="session-length-helper" style={{ margin: 0, fontSize: 12, color: isSessionLengthDraftValid ? '#2a2f4d' : '#7a1230' }}>
+          {isSessionLengthDraftValid
+            ? 'Пресеты ниже сохраняются, так что можно быстро прыгать между спринтами.'
+            : `Нужно целое число от ${FOCUS_MINUTES_RANGE.min} до ${FOCUS_MINUTES_RANGE.max} минут.`}
         </p>
         <div role="group" aria-label="Пресеты" style={{ display: 'flex', gap: 12, marginTop: 4 }}>
           {settings.focusPresets.map((preset) => {
@@ -211,19 +379,44 @@ export function PopupApp(): JSX.Element {
             );
           })}
         </div>
+        <label htmlFor="idle-threshold" style={{ fontSize: 13, fontWeight: 600, color: '#16192e', marginTop: 4 }}>
+          Бездействие через, сек
+        </label>
+        <input
+          id="idle-threshold"
+          type="number"
+          min={IDLE_THRESHOLD_RANGE.min}
+          max={IDLE_THRESHOLD_RANGE.max}
+          value={idleValue}
+          onChange={(event) => setIdleDraft(event.target.value)}
+          onBlur={commitIdleThreshold}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commitIdleThreshold();
+            }
+          }}
+          style={textInputStyle}
+          aria-invalid={!isIdleDraftValid}
+          aria-describedby="idle-threshold-helper"
+        />
+        <p id="idle-threshold-helper" style={{ margin: 0, fontSize: 12, color: isIdleDraftValid ? '#2a2f4d' : '#7a1230' }}>
+          {isIdleDraftValid
+            ? 'Без ввода дольше этого или при заблокированном экране время не засчитывается.'
+            : `Нужно от ${IDLE_THRESHOLD_RANGE.min} до ${IDLE_THRESHOLD_RANGE.max} секунд.`}
+        </p>
       </section>
 
       <section aria-labelledby="saved-sites-title" style={cardVariants.mint}>
         <h2 id="saved-sites-title" style={{ margin: 0, fontSize: 18 }}>Сайты для фокуса</h2>
         <p style={{ margin: 0, fontSize: 13, color: '#163343' }}>
-          Сохраняй домены — и Бычок подсветит их в оверлее, чтобы ты быстрее входил в фокус.
+          Сохраняй домены или разделы (например, leetcode.com/problems) — у каждого своя дневная цель.
         </p>
         <form onSubmit={handleSavedSiteSubmit} style={{ display: 'flex', gap: 12, marginTop: 14 }}>
           <input
             type="text"
             value={newSiteValue}
             onChange={(event) => setNewSiteValue(event.target.value)}
-            placeholder="leetcode.com"
+            placeholder="leetcode.com/problems"
             style={textInputStyle}
             aria-label="Добавить сайт"
           />
@@ -235,19 +428,56 @@ export function PopupApp(): JSX.Element {
             Сохранить
           </button>
         </form>
-        {settings.savedSites.length > 0 ? (
+        {sortedSites.length > 0 ? (
           <ul style={savedSitesListStyle}>
-            {settings.savedSites.map((site) => (
-              <li key={site} style={savedSiteItemStyle}>
-                <span style={{ fontWeight: 600 }}>{site}</span>
-                <button
-                  type="button"
-                  onClick={() => handleSavedSiteRemove(site)}
-                  style={savedSiteRemoveButtonStyle}
-                  aria-label={`Удалить сайт ${site} из списка`}
-                >
-                  Удалить
-                </button>
+            {sortedSites.map((site) => (
+              <li key={site.id} style={savedSiteItemStyle}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12 }}>
+                  <span style={{ fontWeight: 600 }}>{site.id}</span>
+                  <button
+                    type="button"
+                    onClick={() => void removeSite(site.id)}
+                    style={savedSiteRemoveButtonStyle}
+                    aria-label={`Удалить сайт ${site.id} из списка`}
+                  >
+                    Удалить
+                  </button>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, fontSize: 12 }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    Цель, мин
+                    <input
+                      type="number"
+                      min={1}
+                      max={180}
+                      value={site.dailyGoalMin}
+                      onChange={(event) => handleSiteGoalChange(site, Number(event.target.value))}
+                      style={siteGoalInputStyle}
+                      aria-label={`Дневная цель для ${site.id}`}
+                    />
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    Оверлей
+                    <input
+                      type="checkbox"
+                      role="switch"
+                      aria-checked={site.overlayEnabled}
+                      checked={site.overlayEnabled}
+                      onChange={(event) => handleSiteOverlayToggle(site, event.target.checked)}
+                    />
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 8 }} title="Засчитывать время, пока играет видео или аудио">
+                    Видео
+                    <input
+                      type="checkbox"
+                      role="switch"
+                      aria-checked={site.mediaTracking}
+                      checked={site.mediaTracking}
+                      onChange={(event) => handleSiteMediaToggle(site, event.target.checked)}
+                      aria-label={`Засчитывать видео и аудио на ${site.id}`}
+                    />
+                  </label>
+                </div>
               </li>
             ))}
           </ul>
@@ -258,12 +488,64 @@ export function PopupApp(): JSX.Element {
         )}
       </section>
 
+      <StatsCard style={cardVariants.cyan} settings={settings} revision={dataRevision} onSettingsChange={updateSettings} />
+
+      <StreaksCard style={cardVariants.mint} settings={settings} revision={dataRevision} onSettingsChange={updateSettings} />
+
+      <section aria-labelledby="timezone-title" style={cardVariants.lilac}>
+        <h2 id="timezone-title" style={{ margin: 0, fontSize: 18 }}>Часовой пояс</h2>
+        <p style={{ margin: 0, fontSize: 13, color: '#162136' }}>
+          По нему считаются сутки для серий, с учётом перехода на летнее время. При смене пояса сегодняшний прогресс и живые серии переезжают вместе с календарём.
+        </p>
+        <div style={{ display: 'flex', gap: 12 }}>
+          <input
+            type="text"
+            list="timezone-options"
+            value={tzValue}
+            onChange={(event) => setTzDraft(event.target.value)}
+            onBlur={commitTimeZone}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                commitTimeZone();
+              }
+            }}
+            style={textInputStyle}
+            aria-label="Часовой пояс"
+            aria-invalid={!isTzDraftValid}
+            aria-describedby="timezone-helper"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              setTzDraft(null);
+              void updateSettings({ tz: resolveBrowserTimeZone() });
+            }}
+            style={{ ...savedSiteRemoveButtonStyle, whiteSpace: 'nowrap' }}
+          >
+            Как в системе
+          </button>
+        </div>
+        <datalist id="timezone-options">
+          {timeZoneOptions.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+        <p id="timezone-helper" style={{ margin: 0, fontSize: 12, color: isTzDraftValid ? '#2a2f4d' : '#7a1230' }}>
+          {isTzDraftValid ? 'Например, Europe/Moscow или +03:00.' : 'Такого пояса нет — выбери из списка.'}
+        </p>
+      </section>
+
       <section aria-labelledby="quiet-hours-title" style={cardVariants.cyan}>
         <h2 id="quiet-hours-title" style={{ margin: 0, fontSize: 18 }}>Тихие часы</h2>
         <p style={{ margin: 0, fontSize: 13, color: '#162136' }}>
           Когда в силе: {quietHoursString || 'выключены'}. Во время молчаливого окна Бычок не тревожит звуками и пушами.
         </p>
-        {settings.quietHours.map(([start, end], index) => (
+        {quietStatus ? (
+          <p role="status" style={{ margin: 0, fontSize: 12, color: '#162136', fontWeight: 600 }}>
+            {quietStatus}
+          </p>
+        ) : null}
+        {settings.quietHours.map((range, index) => (
           <div
             key={index}
             style={{
@@ -280,25 +562,25 @@ export function PopupApp(): JSX.Element {
           >
             <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
               <span style={{ fontSize: 11, color: '#1b1f33' }}>c</span>
-              <select
+              <input
+                type="time"
+                step={60}
                 aria-label={`Начало интервала ${index + 1}`}
-                value={start}
-                onChange={(event) => handleQuietHoursChange(index, 'start', Number(event.target.value))}
+                value={formatMinutes(range.start)}
+                onChange={(event) => handleQuietHoursChange(index, 'start', event.target.value)}
                 style={selectStyle}
-              >
-                {hoursOptions()}
-              </select>
+              />
             </label>
             <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
               <span style={{ fontSize: 11, color: '#1b1f33' }}>до</span>
-              <select
+              <input
+                type="time"
+                step={60}
                 aria-label={`Конец интервала ${index + 1}`}
-                value={end}
-                onChange={(event) => handleQuietHoursChange(index, 'end', Number(event.target.value))}
+                value={formatMinutes(range.end)}
+                onChange={(event) => handleQuietHoursChange(index, 'end', event.target.value)}
                 style={selectStyle}
-              >
-                {hoursOptions()}
-              </select>
+              />
             </label>
             <button
               type="button"
@@ -313,6 +595,29 @@ export function PopupApp(): JSX.Element {
             >
               ✕
             </button>
+            <div role="group" aria-label={`Дни интервала ${index + 1}`} style={{ gridColumn: '1 / -1', display: 'flex', gap: 6 }}>
+              {WEEKDAYS.map((day) => {
+                const isActive = range.days.length === 0 || range.days.includes(day.value);
+                const isLastDay = range.days.length === 1 && isActive;
+                return (
+                  <button
+                    key={day.value}
+                    type="button"
+                    aria-pressed={isActive}
+                    onClick={() => handleQuietDayToggle(index, day.value)}
+                    disabled={isLastDay}
+                    title={isLastDay ? 'Нужен хотя бы один день — или удалите окно' : undefined}
+                    style={{
+                      ...weekdayButtonStyle,
+                      background: isActive ? 'rgba(106,90,249,0.85)' : 'rgba(255,255,255,0.7)',
+                      color: isActive ? '#F6F7FF' : '#1b1f33'
+                    }}
+                  >
+                    {day.label}
+                  </button>
+                );
+              })}
+            </div>
           </div>
         ))}
         <button type="button" onClick={handleAddQuietRange} style={ghostButtonStyle}>
@@ -321,10 +626,8 @@ export function PopupApp(): JSX.Element {
       </section>
 
       <section aria-labelledby="notifications-title" style={cardVariants.ink}>
-        <h2 id="notifications-title" style={{ margin: 0, fontSize: 18 }}>Уведомления и звук</h2>
-        <p style={{ margin: 0, fontSize: 13 }}>
-          Пуши помогают не проспать финал спринта. А звук — это фирменный «пшш» при старте.
-        </p>
+        <h2 id="notifications-title" style={{ margin: 0, fontSize: 18 }}>Уведомления</h2>
+        <p style={{ margin: 0, fontSize: 13 }}>Пуши помогают не проспать финал спринта.</p>
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 12 }}>
           <span>Браузерные уведомления</span>
           <input
@@ -335,28 +638,62 @@ export function PopupApp(): JSX.Element {
             onChange={(event) => void updateSettings({ notifications: event.target.checked })}
           />
         </div>
-        <label htmlFor="audio-select" style={{ display: 'flex', flexDirection: 'column', gap: 8, marginTop: 12 }}>
-          Звук запуска
-          <select
-            id="audio-select"
-            value={settings.focusEntrySound ?? 'mute'}
-            onChange={(event) => handleAudioChange(event.target.value)}
-            style={{ ...selectStyle, background: 'rgba(15,16,32,0.32)', color: '#F6F7FF', border: '1px solid rgba(46,244,209,0.45)' }}
-          >
-            {audioChoices.map((option) => (
-              <option key={option.id} value={option.id}>
-                {option.label}
-              </option>
-            ))}
-          </select>
-        </label>
       </section>
+
+      <SoundsCard
+        style={cardVariants.ink}
+        settings={settings}
+        revision={dataRevision}
+        onSettingsChange={updateSettings}
+        onSettingsReplaced={replaceSettings}
+      />
+
+      <StorageCard style={cardVariants.cyan} settings={settings} revision={dataRevision} onSettingsChange={updateSettings} />
+
+      <DataTransferCard style={cardVariants.lilac} onImported={() => setDataRevision((value) => value + 1)} />
     </div>
   );
 }
 
-function formatHour(hour: number): string {
-  return `${hour.toString().padStart(2, '0')}:00`;
+function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  try {
+    return intl.supportedValuesOf?.('timeZone') ?? [];
+  } catch (_error) {
+    return [];
+  }
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function parseTimeInput(value: string): number | null {
+  const match = value.match(/^(\d{2}):(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function formatQuietRange(range: QuietHoursRange): string {
+  const time = `${formatMinutes(range.start)} – ${formatMinutes(range.end)}`;
+  if (range.days.length === 0) {
+    return time;
+  }
+  const labels = WEEKDAYS.filter((day) => range.days.includes(day.value)).map((day) => day.label);
+  return `${time} (${labels.join(', ')})`;
+}
+
+function describeQuietStatus(settings: Settings): string | null {
+  const evaluation = evaluateQuietHours(settings, new Date());
+  if (evaluation.nextBoundary === null) {
+    return null;
+  }
+  const parts = getZonedParts(evaluation.nextBoundary, settings.tz);
+  const time = formatMinutes(parts.hour * 60 + parts.minute);
+  const day = WEEKDAYS.find((item) => item.value === parts.weekday)?.label ?? '';
+  return evaluation.withinQuietHours ? `Сейчас тихо до ${day} ${time}` : `Следующая тишина: ${day} ${time}`;
 }
 
 const selectStyle: React.CSSProperties = {
@@ -391,6 +728,16 @@ const ghostButtonStyle: React.CSSProperties = {
   cursor: 'pointer'
 };
 
+const weekdayButtonStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 0',
+  borderRadius: 10,
+  border: '1px solid rgba(106,90,249,0.35)',
+  fontSize: 11,
+  fontWeight: 700,
+  cursor: 'pointer'
+};
+
 const iconButtonStyle: React.CSSProperties = {
   width: 40,
   height: 40,
@@ -424,8 +771,8 @@ const savedSitesListStyle: React.CSSProperties = {
 
 const savedSiteItemStyle: React.CSSProperties = {
   display: 'flex',
-  alignItems: 'center',
-  justifyContent: 'space-between',
+  flexDirection: 'column',
+  gap: 10,
   padding: '12px 16px',
   borderRadius: 16,
   background: 'rgba(255,255,255,0.6)',
@@ -433,6 +780,16 @@ const savedSiteItemStyle: React.CSSProperties = {
   color: '#162136'
 };
 
+const siteGoalInputStyle: React.CSSProperties = {
+  width: 64,
+  padding: '6px 8px',
+  borderRadius: 12,
+  border: '1px solid rgba(15,16,32,0.16)',
+  background: 'rgba(255,255,255,0.85)',
+  fontWeight: 600,
+  color: '#16192e'
+};
+
 const savedSiteRemoveButtonStyle: React.CSSProperties = {
   padding: '8px 14px',
   borderRadius: 14,
@@ -442,27 +799,3 @@ const savedSiteRemoveButtonStyle: React.CSSProperties = {
   fontWeight: 600,
   cursor: 'pointer'
 };
-
-function hoursOptions(): JSX.Element[] {
-  return Array.from({ length: 24 }, (_, hour) => (
-    <option key={hour} value={hour}>
-      {formatHour(hour)}
-    </option>
-  ));
-}
-
-function normalizeSiteInput(value: string): string | null {
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return null;
-  }
-  const normalized = trimmed.toLowerCase();
-  try {
-    const url = normalized.includes('://') ? new URL(normalized) : new URL(`https://${normalized}`);
-    const hostname = url.hostname.replace(/^www\./, '');
-    return hostname || null;
-  } catch (_error) {
-    const fallbackHost = normalized.replace(/^www\./, '').split(/[/?#]/)[0];
-    return fallbackHost || null;
-  }
-}
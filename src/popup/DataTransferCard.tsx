@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { sendRequest } from '../shared/rpc.js';
+import { ImportMode } from '../shared/types.js';
+
+interface ImportReport {
+  ok: boolean;
+  errors: string[];
+  warnings: string[];
+  summary?: { sessions: number; streaks: number; sites: number };
+}
+
+interface DataTransferCardProps {
+  style: React.CSSProperties;
+  onImported: () => void;
+}
+
+export function DataTransferCard({ style, onImported }: DataTransferCardProps): JSX.Element {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    const response = await sendRequest('data:export');
+    if (!response.ok) {
+      setReport({ ok: false, errors: ['Не удалось собрать экспорт'], warnings: [] });
+      return;
+    }
+    const blob = new Blob([JSON.stringify(response.document, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bychok-export-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      let document: unknown;
+      try {
+        document = JSON.parse(await file.text());
+      } catch (_error) {
+        setReport({ ok: false, errors: ['Файл не является корректным JSON'], warnings: [] });
+        return;
+      }
+      const response = await sendRequest('data:import', { document, mode });
+      if (!response.ok) {
+        setReport({ ok: false, errors: response.error.details ?? ['Импорт не удался'], warnings: [] });
+        return;
+      }
+      setReport({ ok: true, errors: [], warnings: response.warnings, summary: response.summary });
+      onImported();
+    } catch (error) {
+      console.error('Import failed', error);
+      setReport({ ok: false, errors: ['Импорт не удался'], warnings: [] });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <section aria-labelledby="data-transfer-title" style={style}>
+      <h2 id="data-transfer-title" style={{ margin: 0, fontSize: 18 }}>Данные</h2>
+      <p style={{ margin: 0, fontSize: 13, color: '#162136' }}>
+        Всё хранится локально. Выгрузи JSON с настройками, сайтами, сессиями и сериями или загрузи его обратно.
+      </p>
+      <button type="button" onClick={() => void handleExport()} style={transferButtonStyle}>
+        Экспорт в JSON
+      </button>
+      <fieldset style={{ border: 'none', margin: 0, padding: 0, display: 'flex', gap: 16, fontSize: 13 }}>
+        <legend className="sr-only">Режим импорта</legend>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+          Объединить
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+          Заменить всё
+        </label>
+      </fieldset>
+      <label style={{ ...transferButtonStyle, textAlign: 'center', opacity: isBusy ? 0.6 : 1 }}>
+        {isBusy ? 'Импортирую…' : 'Импорт из JSON'}
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(event) => void handleImport(event)}
+          disabled={isBusy}
+          className="sr-only"
+        />
+      </label>
+      {report ? (
+        <div role="status" aria-live="polite" style={{ fontSize: 12, color: '#162136' }}>
+          {report.ok && report.summary ? (
+            <p style={{ margin: 0 }}>
+              Готово: {report.summary.sites} сайтов, {report.summary.sessions} сессий, {report.summary.streaks} серий.
+            </p>
+          ) : null}
+          {[...report.errors, ...report.warnings].length > 0 ? (
+            <ul style={{ margin: '6px 0 0 0', paddingLeft: 18 }}>
+              {[...report.errors, ...report.warnings].map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+const transferButtonStyle: React.CSSProperties = {
+  padding: '12px 18px',
+  borderRadius: 16,
+  border: '1px solid rgba(106,90,249,0.45)',
+  background: 'rgba(255,255,255,0.7)',
+  color: '#4331d8',
+  fontWeight: 700,
+  cursor: 'pointer'
+};
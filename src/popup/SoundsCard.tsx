@@ -0,0 +1,324 @@
+import React, { useEffect, useState } from 'react';
+import { CUSTOM_SOUND_LIMITS, customSoundProblems, SOUND_LIBRARY, SOUND_SETTINGS, SoundSetting } from '../shared/audio.js';
+import { sendRequest } from '../shared/rpc.js';
+import { CustomSoundInput, Settings, SoundLibrary } from '../shared/types.js';
+import { findActiveSoundPack, soundPackSettings } from '../service/soundLibrary.js';
+
+const BUNDLED_SOUND_LABELS: Record<string, string> = {
+  'chime-soft': 'Ламповый дзынь',
+  'pulse-air': 'Пульс неона'
+};
+
+const MUTE = 'mute';
+
+const SOUND_EVENT_LABELS: Record<SoundSetting, string> = {
+  focusEntrySound: 'Звук запуска',
+  focusEndingSound: 'Минута до финиша',
+  focusSuccessSound: 'Звук финиша',
+  streakWarningSound: 'Серия на волоске'
+};
+
+interface SoundsCardProps {
+  style: React.CSSProperties;
+  settings: Settings;
+  revision: number;
+  onSettingsChange: (next: Partial<Settings>) => Promise<void>;
+  onSettingsReplaced: (settings: Settings) => void;
+}
+
+export function SoundsCard({ style, settings, revision, onSettingsChange, onSettingsReplaced }: SoundsCardProps): JSX.Element {
+  const [library, setLibrary] = useState<SoundLibrary>({ sounds: [], packs: [] });
+  const [packName, setPackName] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('sounds:read');
+      if (response.ok) {
+        setLibrary({ sounds: response.sounds, packs: response.packs });
+      } else {
+        console.error('Failed to load sounds', response.error);
+      }
+    }
+    void load();
+  }, [revision]);
+
+  const activePack = findActiveSoundPack(settings, library.packs);
+  const choices = [
+    ...Object.keys(SOUND_LIBRARY).map((id) => ({ id, label: BUNDLED_SOUND_LABELS[id] ?? id })),
+    ...library.sounds.map((sound) => ({ id: sound.id, label: `★ ${sound.name}` })),
+    { id: MUTE, label: 'Только вибра' }
+  ];
+
+  const handleSoundChange = (key: SoundSetting, soundId: string) => {
+    const sound = soundId === MUTE ? null : soundId;
+    const audioEnabled = SOUND_SETTINGS.some((other) => (other === key ? sound : settings[other]) !== null);
+    void onSettingsChange({ [key]: sound, audioEnabled });
+  };
+
+  const handlePackChange = (packId: string) => {
+    const pack = library.packs.find((item) => item.id === packId);
+    if (pack) {
+      void onSettingsChange(soundPackSettings(pack));
+    }
+  };
+
+  const handleSavePack = async () => {
+    const name = packName.trim();
+    if (!name) {
+      return;
+    }
+    const response = await sendRequest('sound-packs:save', { name });
+    if (response.ok) {
+      setLibrary({ sounds: response.sounds, packs: response.packs });
+      setPackName('');
+    }
+  };
+
+  const handleRemovePack = async (id: string) => {
+    const response = await sendRequest('sound-packs:remove', { id });
+    if (response.ok) {
+      setLibrary({ sounds: response.sounds, packs: response.packs });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setProblems([]);
+    if (file.size > CUSTOM_SOUND_LIMITS.maxBytes) {
+      setProblems([`Файл больше ${CUSTOM_SOUND_LIMITS.maxBytes / 1024} КБ`]);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const dataUrl = await readAsDataUrl(file);
+      const input: CustomSoundInput = {
+        name: file.name.replace(/\.[^.]+$/, '').slice(0, CUSTOM_SOUND_LIMITS.maxNameLength),
+        dataUrl,
+        durationSec: await measureDuration(dataUrl)
+      };
+      const found = customSoundProblems(input);
+      if (found.length > 0) {
+        setProblems(found);
+        return;
+      }
+      const response = await sendRequest('sounds:add', input);
+      if (response.ok) {
+        setLibrary({ sounds: response.sounds, packs: response.packs });
+      } else if (response.error.code === 'sound-limit') {
+        setProblems([`Можно хранить не больше ${CUSTOM_SOUND_LIMITS.maxSounds} своих звуков`]);
+      } else {
+        setProblems(response.error.details ?? ['Не удалось добавить звук']);
+      }
+    } catch (error) {
+      console.error('Sound import failed', error);
+      setProblems(['Не удалось прочитать файл']);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemoveSound = async (id: string) => {
+    const response = await sendRequest('sounds:remove', { id });
+    if (response.ok) {
+      setLibrary({ sounds: response.sounds, packs: response.packs });
+      // The worker already muted events that used the sound; only mirror its settings here.
+      onSettingsReplaced(response.settings);
+    }
+  };
+
+  const preview = (soundId: string) => {
+    void sendRequest('sounds:preview', { soundId });
+  };
+
+  return (
+    <section aria-labelledby="sounds-title" style={style}>
+      <h2 id="sounds-title" style={{ margin: 0, fontSize: 18 }}>Звуки</h2>
+      <p style={{ margin: 0, fontSize: 13 }}>
+        Фирменный «пшш» при старте и салют на финише — или свои звуки до {CUSTOM_SOUND_LIMITS.maxSeconds} секунд.
+      </p>
+      <label htmlFor="sound-pack-select" style={fieldStyle}>
+        Набор звуков
+        <select
+          id="sound-pack-select"
+          value={activePack?.id ?? ''}
+          onChange={(event) => handlePackChange(event.target.value)}
+          style={selectStyle}
+        >
+          {activePack ? null : <option value="">Свой набор</option>}
+          {library.packs.map((pack) => (
+            <option key={pack.id} value={pack.id}>
+              {pack.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div style={{ display: 'flex', gap: 8 }}>
+        <input
+          aria-label="Название набора"
+          value={packName}
+          placeholder="Название набора"
+          maxLength={CUSTOM_SOUND_LIMITS.maxNameLength}
+          onChange={(event) => setPackName(event.target.value)}
+          style={{ ...selectStyle, flex: 1 }}
+        />
+        <button type="button" onClick={() => void handleSavePack()} disabled={!packName.trim()} style={smallButtonStyle}>
+          Сохранить
+        </button>
+        {activePack && !activePack.id.startsWith('builtin:') ? (
+          <button type="button" onClick={() => void handleRemovePack(activePack.id)} style={smallButtonStyle}>
+            Удалить набор
+          </button>
+        ) : null}
+      </div>
+      {SOUND_SETTINGS.map((key) => (
+        <div key={key} style={fieldStyle}>
+          <label htmlFor={`${key}-select`}>{SOUND_EVENT_LABELS[key]}</label>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <select
+              id={`${key}-select`}
+              value={settings[key] ?? MUTE}
+              onChange={(event) => handleSoundChange(key, event.target.value)}
+              style={{ ...selectStyle, flex: 1 }}
+            >
+              {choices.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => preview(settings[key]!)}
+              disabled={settings[key] === null}
+              aria-label={`Прослушать: ${SOUND_EVENT_LABELS[key]}`}
+              style={smallButtonStyle}
+            >
+              ▶
+            </button>
+          </div>
+        </div>
+      ))}
+      <label htmlFor="audio-volume" style={fieldStyle}>
+        Громкость: {Math.round(settings.audioVolume * 100)}%
+        <input
+          id="audio-volume"
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(settings.audioVolume * 100)}
+          disabled={!settings.audioEnabled}
+          onChange={(event) => void onSettingsChange({ audioVolume: Number(event.target.value) / 100 })}
+        />
+      </label>
+      {library.sounds.length > 0 ? (
+        <ul style={soundListStyle}>
+          {library.sounds.map((sound) => (
+            <li key={sound.id} style={soundItemStyle}>
+              <span style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis' }}>{sound.name}</span>
+              <span style={{ fontSize: 12, opacity: 0.8 }}>
+                {sound.durationSec.toFixed(1)} с • {Math.ceil(sound.sizeBytes / 1024)} КБ
+              </span>
+              <button type="button" onClick={() => preview(sound.id)} aria-label={`Прослушать ${sound.name}`} style={smallButtonStyle}>
+                ▶
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleRemoveSound(sound.id)}
+                aria-label={`Удалить ${sound.name}`}
+                style={smallButtonStyle}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <label style={{ ...smallButtonStyle, textAlign: 'center', opacity: isBusy ? 0.6 : 1 }}>
+        Добавить свой звук
+        <input type="file" accept="audio/*" onChange={(event) => void handleImport(event)} disabled={isBusy} hidden />
+      </label>
+      <p style={{ margin: 0, fontSize: 12, opacity: 0.8 }}>
+        До {CUSTOM_SOUND_LIMITS.maxBytes / 1024} КБ и {CUSTOM_SOUND_LIMITS.maxSeconds} секунд, хранится только на этом устройстве.
+      </p>
+      {problems.length > 0 ? (
+        <ul role="alert" style={{ margin: 0, paddingLeft: 18, fontSize: 12, color: '#ffb4c6' }}>
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// NaN when the browser cannot decode the file; validation reports it.
+function measureDuration(url: string): Promise<number> {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(audio.duration);
+    audio.onerror = () => resolve(Number.NaN);
+    audio.src = url;
+  });
+}
+
+const fieldStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '12px 14px',
+  borderRadius: 16,
+  fontSize: 14,
+  fontWeight: 600,
+  background: 'rgba(15,16,32,0.32)',
+  color: '#F6F7FF',
+  border: '1px solid rgba(46,244,209,0.45)'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: 14,
+  border: '1px solid rgba(46,244,209,0.45)',
+  background: 'rgba(46,244,209,0.16)',
+  color: '#F6F7FF',
+  fontWeight: 600,
+  cursor: 'pointer'
+};
+
+const soundListStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8
+};
+
+const soundItemStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '1fr auto auto auto',
+  alignItems: 'center',
+  gap: 8,
+  padding: '8px 12px',
+  borderRadius: 14,
+  background: 'rgba(255,255,255,0.08)'
+};
@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { sendRequest } from '../shared/rpc.js';
+import { QuietHoursRange, Settings, StatsSummary } from '../shared/types.js';
+
+const WEEKDAY_LABELS = ['Вс', 'Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб'];
+const HEATMAP_ROW_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+const CHART_HEIGHT = 72;
+
+interface StatsCardProps {
+  style: React.CSSProperties;
+  settings: Settings;
+  revision: number;
+  onSettingsChange: (next: Partial<Settings>) => Promise<void>;
+}
+
+interface ChartBar {
+  key: string;
+  label: string;
+  minutes: number;
+  highlight: boolean;
+}
+
+export function StatsCard({ style, settings, revision, onSettingsChange }: StatsCardProps): JSX.Element {
+  const [stats, setStats] = useState<StatsSummary | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('stats:read');
+      if (response.ok) {
+        setStats(response.stats);
+      } else {
+        console.error('Failed to load stats', response.error);
+      }
+    }
+    void load();
+  }, [revision, settings.pageTracking]);
+
+  if (!stats) {
+    return (
+      <section aria-labelledby="stats-title" style={style}>
+        <h2 id="stats-title" style={{ margin: 0, fontSize: 18 }}>Прогресс</h2>
+      </section>
+    );
+  }
+
+  const today = stats.days[stats.days.length - 1];
+  const suggestion = stats.quietHoursSuggestion;
+  const lastWeek: ChartBar[] = stats.days.slice(-7).map((day) => ({
+    key: day.date,
+    label: WEEKDAY_LABELS[new Date(`${day.date}T00:00:00Z`).getUTCDay()],
+    minutes: day.activeMinutes,
+    highlight: day.goalsMet > 0
+  }));
+  const weeks: ChartBar[] = stats.weeks.map((week, index) => ({
+    key: week.weekStart,
+    label: index === stats.weeks.length - 1 ? 'эта' : formatDate(week.weekStart),
+    minutes: week.activeMinutes,
+    highlight: index === stats.weeks.length - 1
+  }));
+
+  return (
+    <section aria-labelledby="stats-title" style={style}>
+      <h2 id="stats-title" style={{ margin: 0, fontSize: 18 }}>Прогресс</h2>
+      <dl style={tileGridStyle}>
+        <StatTile label="Сегодня" value={formatMinutes(today?.activeMinutes ?? 0)} />
+        <StatTile label="В среднем за 7 дней" value={formatMinutes(stats.average7)} />
+        <StatTile label="В среднем за 30 дней" value={formatMinutes(stats.average30)} />
+        <StatTile label="Цели за 30 дней" value={formatPercent(stats.goalHitRate)} />
+        <StatTile
+          label="Лучший день"
+          value={stats.bestDay ? `${formatMinutes(stats.bestDay.activeMinutes)} • ${formatDate(stats.bestDay.date)}` : '—'}
+        />
+      </dl>
+      <BarChart title="Последние 7 дней" bars={lastWeek} />
+      <BarChart title="По неделям" bars={weeks} />
+      <Heatmap heatmap={stats.heatmap} />
+      {suggestion && !isSameQuietHours(settings.quietHours, suggestion) ? (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, fontSize: 12 }}>
+          <span>
+            Реже всего ты занимаешься с {formatHour(suggestion.start)} до {formatHour(suggestion.end)} — подходящие тихие часы.
+          </span>
+          <button type="button" onClick={() => void onSettingsChange({ quietHours: [suggestion] })} style={applyButtonStyle}>
+            Применить
+          </button>
+        </div>
+      ) : null}
+      <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, fontSize: 13 }}>
+        <span>
+          Учитывать страницы
+          <span style={{ display: 'block', fontSize: 11, color: '#2a2f4d' }}>
+            Запоминает путь без параметров запроса. При выключении собранные страницы удаляются.
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          role="switch"
+          aria-checked={settings.pageTracking}
+          checked={settings.pageTracking}
+          onChange={(event) => void onSettingsChange({ pageTracking: event.target.checked })}
+        />
+      </label>
+      {stats.sites.length > 0 ? (
+        <ul style={siteListStyle} aria-label="Время по сайтам за 30 дней">
+          {stats.sites.map((site) => (
+            <li key={site.siteId} style={siteItemStyle}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <span style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis' }}>{site.siteId}</span>
+                <span>
+                  {formatMinutes(site.activeMinutes)} • {formatPercent(site.share)}
+                </span>
+              </div>
+              <div style={shareTrackStyle}>
+                <div style={{ ...shareFillStyle, width: `${site.share * 100}%` }} />
+              </div>
+              <span style={{ fontSize: 11, color: '#2a2f4d' }}>Цель выполнена в {formatPercent(site.goalHitRate)} дней</span>
+              {site.topPages.length > 0 ? (
+                <ol style={pageListStyle} aria-label={`Топ страниц ${site.siteId}`}>
+                  {site.topPages.map((page) => (
+                    <li key={page.page} style={pageItemStyle}>
+                      <span title={page.page} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {page.page.slice(page.page.indexOf('/'))}
+                      </span>
+                      <span style={{ flexShrink: 0 }}>{formatMinutes(page.activeMinutes)}</span>
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p style={{ margin: 0, fontSize: 12, color: '#1c2740' }}>За последние 30 дней активности ещё не было.</p>
+      )}
+    </section>
+  );
+}
+
+function StatTile({ label, value }: { label: string; value: string }): JSX.Element {
+  return (
+    <div style={tileStyle}>
+      <dt style={{ fontSize: 11, color: '#2a2f4d' }}>{label}</dt>
+      <dd style={{ margin: 0, fontSize: 15, fontWeight: 700 }}>{value}</dd>
+    </div>
+  );
+}
+
+function BarChart({ title, bars }: { title: string; bars: ChartBar[] }): JSX.Element {
+  const max = Math.max(...bars.map((bar) => bar.minutes), 1);
+  return (
+    <figure style={{ margin: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <figcaption style={{ fontSize: 13, fontWeight: 600 }}>{title}</figcaption>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 6, height: CHART_HEIGHT + 16 }}>
+        {bars.map((bar) => (
+          <div key={bar.key} style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4 }}>
+            <div
+              title={formatMinutes(bar.minutes)}
+              aria-label={`${bar.label}: ${formatMinutes(bar.minutes)}`}
+              style={{
+                ...barStyle,
+                height: Math.max(2, Math.round((bar.minutes / max) * CHART_HEIGHT)),
+                background: bar.highlight ? 'linear-gradient(180deg, #2EF4D1, #6A5AF9)' : 'rgba(106,90,249,0.35)'
+              }}
+            />
+            <span style={{ fontSize: 10, color: '#2a2f4d' }}>{bar.label}</span>
+          </div>
+        ))}
+      </div>
+    </figure>
+  );
+}
+
+function Heatmap({ heatmap }: { heatmap: number[][] }): JSX.Element {
+  const max = Math.max(...heatmap.flat(), 0);
+  return (
+    <figure style={{ margin: 0, display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <figcaption style={{ fontSize: 13, fontWeight: 600 }}>Когда ты занимаешься (8 недель)</figcaption>
+      <div role="img" aria-label="Активность по дням недели и часам" style={heatmapGridStyle}>
+        {heatmap.map((row, day) => (
+          <React.Fragment key={HEATMAP_ROW_LABELS[day]}>
+            <span style={{ fontSize: 10, color: '#2a2f4d' }}>{HEATMAP_ROW_LABELS[day]}</span>
+            {row.map((minutes, hour) => (
+              <span
+                key={hour}
+                title={`${HEATMAP_ROW_LABELS[day]}, ${hour}:00 — ${formatMinutes(minutes)}`}
+                style={{ ...heatmapCellStyle, opacity: max > 0 && minutes > 0 ? 0.2 + 0.8 * (minutes / max) : 0.08 }}
+              />
+            ))}
+          </React.Fragment>
+        ))}
+        <span />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <span key={hour} style={{ fontSize: 9, color: '#2a2f4d', textAlign: 'center' }}>
+            {hour % 6 === 0 ? hour : ''}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+}
+
+function isSameQuietHours(current: QuietHoursRange[], suggestion: QuietHoursRange): boolean {
+  return (
+    current.length === 1 &&
+    current[0].start === suggestion.start &&
+    current[0].end === suggestion.end &&
+    current[0].days.length === 0
+  );
+}
+
+function formatHour(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:00`;
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) {
+    return `${rounded} мин`;
+  }
+  const rest = rounded % 60;
+  return rest > 0 ? `${Math.floor(rounded / 60)} ч ${rest} мин` : `${rounded / 60} ч`;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatDate(dateKey: string): string {
+  return `${dateKey.slice(8, 10)}.${dateKey.slice(5, 7)}`;
+}
+
+const tileGridStyle: React.CSSProperties = {
+  margin: 0,
+  display: 'grid',
+  gridTemplateColumns: '1fr 1fr',
+  gap: 8
+};
+
+const tileStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 2,
+  padding: '8px 12px',
+  borderRadius: 14,
+  background: 'rgba(255,255,255,0.6)',
+  color: '#162136'
+};
+
+const heatmapGridStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '20px repeat(24, 1fr)',
+  gap: 2,
+  alignItems: 'center'
+};
+
+const heatmapCellStyle: React.CSSProperties = {
+  height: 10,
+  borderRadius: 2,
+  background: '#6A5AF9'
+};
+
+const applyButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderRadius: 12,
+  border: '1px solid rgba(106,90,249,0.4)',
+  background: 'rgba(255,255,255,0.7)',
+  color: '#1b1f33',
+  fontWeight: 600,
+  cursor: 'pointer',
+  flexShrink: 0
+};
+
+const barStyle: React.CSSProperties = {
+  width: '100%',
+  maxWidth: 28,
+  borderRadius: 6
+};
+
+const siteListStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 10
+};
+
+const siteItemStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 4,
+  padding: '10px 14px',
+  borderRadius: 16,
+  background: 'rgba(255,255,255,0.6)',
+  border: '1px solid rgba(106,90,249,0.22)',
+  color: '#162136',
+  fontSize: 13
+};
+
+const pageListStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: '4px 0 0',
+  padding: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 2,
+  fontSize: 11
+};
+
+const pageItemStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: 8
+};
+
+const shareTrackStyle: React.CSSProperties = {
+  height: 6,
+  borderRadius: 999,
+  background: 'rgba(106,90,249,0.12)',
+  overflow: 'hidden'
+};
+
+const shareFillStyle: React.CSSProperties = {
+  height: '100%',
+  borderRadius: 999,
+  background: 'linear-gradient(90deg, #6A5AF9, #2EF4D1)'
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { sendRequest } from '../shared/rpc.js';
+import { Settings, StorageUsage } from '../shared/types.js';
+import { RETENTION_RANGES } from '../shared/validation.js';
+
+type RetentionKey = keyof typeof RETENTION_RANGES;
+
+interface StorageCardProps {
+  style: React.CSSProperties;
+  settings: Settings;
+  revision: number;
+  onSettingsChange: (next: Partial<Settings>) => Promise<void>;
+}
+
+export function StorageCard({ style, settings, revision, onSettingsChange }: StorageCardProps): JSX.Element {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<RetentionKey, string>>>({});
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('storage:usage');
+      if (response.ok) {
+        setUsage(response.usage);
+      } else {
+        console.error('Failed to read storage usage', response.error);
+      }
+    }
+    void load();
+  }, [revision, settings.dailyRetentionDays, settings.weeklyRetentionWeeks]);
+
+  const valueOf = (key: RetentionKey) => drafts[key] ?? String(settings[key]);
+  const isValid = (key: RetentionKey) => {
+    const value = Number(valueOf(key));
+    return Number.isInteger(value) && value >= RETENTION_RANGES[key].min && value <= RETENTION_RANGES[key].max;
+  };
+
+  const commit = (key: RetentionKey) => {
+    if (!isValid(key)) {
+      return;
+    }
+    const next = Number(valueOf(key));
+    setDrafts((current) => ({ ...current, [key]: undefined }));
+    if (next !== settings[key]) {
+      void onSettingsChange({ [key]: next });
+    }
+  };
+
+  const renderField = (key: RetentionKey, label: string, unit: string) => (
+    <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, fontSize: 13 }}>
+      <span>{label}</span>
+      <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={RETENTION_RANGES[key].min}
+          max={RETENTION_RANGES[key].max}
+          value={valueOf(key)}
+          onChange={(event) => setDrafts((current) => ({ ...current, [key]: event.target.value }))}
+          onBlur={() => commit(key)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commit(key);
+            }
+          }}
+          style={retentionInputStyle}
+          aria-invalid={!isValid(key)}
+        />
+        {unit}
+      </span>
+    </label>
+  );
+
+  const percent = usage ? Math.min(100, (usage.bytesInUse / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <section aria-labelledby="storage-title" style={style}>
+      <h2 id="storage-title" style={{ margin: 0, fontSize: 18 }}>Хранилище</h2>
+      {usage ? (
+        <>
+          <p style={{ margin: 0, fontSize: 13, color: '#162136' }}>
+            Занято {formatKilobytes(usage.bytesInUse)} из {formatKilobytes(usage.quotaBytes)} ({percent.toFixed(1)}%).
+            Дневных записей: {usage.sessions}, сводок: {usage.rollups}.
+          </p>
+          <div role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(percent)} style={meterTrackStyle}>
+            <div style={{ ...meterFillStyle, width: `${percent}%` }} />
+          </div>
+        </>
+      ) : null}
+      <p style={{ margin: 0, fontSize: 12, color: '#2a2f4d' }}>
+        Старые дни сворачиваются в недельные сводки, а старые недели — в месячные.
+      </p>
+      {renderField('dailyRetentionDays', 'Хранить дни', 'дн.')}
+      {renderField('weeklyRetentionWeeks', 'Хранить недели', 'нед.')}
+      {!isValid('dailyRetentionDays') || !isValid('weeklyRetentionWeeks') ? (
+        <p role="alert" style={{ margin: 0, fontSize: 12, color: '#7a1230' }}>
+          Дни: от {RETENTION_RANGES.dailyRetentionDays.min} до {RETENTION_RANGES.dailyRetentionDays.max}, недели: от{' '}
+          {RETENTION_RANGES.weeklyRetentionWeeks.min} до {RETENTION_RANGES.weeklyRetentionWeeks.max}.
+        </p>
+      ) : null}
+    </section>
+  );
+}
+
+function formatKilobytes(bytes: number): string {
+  return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} КБ`;
+}
+
+const retentionInputStyle: React.CSSProperties = {
+  width: 72,
+  padding: '6px 10px',
+  borderRadius: 12,
+  border: '1px solid rgba(106,90,249,0.3)',
+  background: 'rgba(255,255,255,0.7)',
+  color: '#162136'
+};
+
+const meterTrackStyle: React.CSSProperties = {
+  height: 8,
+  borderRadius: 999,
+  background: 'rgba(255,255,255,0.5)',
+  overflow: 'hidden'
+};
+
+const meterFillStyle: React.CSSProperties = {
+  height: '100%',
+  borderRadius: 999,
+  background: 'linear-gradient(90deg, #6A5AF9, #2EF4D1)'
+};
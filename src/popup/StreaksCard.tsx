@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { applyManualFreeze, refillFreezes } from '../service/activity.js';
+import { sendRequest } from '../shared/rpc.js';
+import { Settings, Streak } from '../shared/types.js';
+
+const SNOOZE_CHOICES = [15, 30, 60, 120];
+
+interface StreaksCardProps {
+  style: React.CSSProperties;
+  settings: Settings;
+  revision: number;
+  onSettingsChange: (next: Partial<Settings>) => Promise<void>;
+}
+
+export function StreaksCard({ style, settings, revision, onSettingsChange }: StreaksCardProps): JSX.Element {
+  const [streaks, setStreaks] = useState<Streak[]>([]);
+  const [today, setToday] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const response = await sendRequest('streaks:read');
+      if (response.ok) {
+        setStreaks(response.streaks);
+        setToday(response.today);
+      } else {
+        console.error('Failed to load streaks', response.error);
+      }
+    }
+    void load();
+  }, [revision]);
+
+  const handleFreeze = async (siteId: string) => {
+    setError(null);
+    const response = await sendRequest('streaks:freeze', { siteId });
+    if (response.ok) {
+      setStreaks(response.streaks);
+    } else if (response.error.code === 'freeze-unavailable') {
+      setError('Заморозок не хватает, чтобы закрыть пропущенные дни.');
+    } else {
+      setError('Не удалось применить заморозку, попробуй ещё раз.');
+    }
+  };
+
+  const sorted = [...streaks].sort((a, b) => b.length - a.length);
+
+  return (
+    <section aria-labelledby="streaks-title" style={style}>
+      <h2 id="streaks-title" style={{ margin: 0, fontSize: 18 }}>Серии и заморозки</h2>
+      <p style={{ margin: 0, fontSize: 13, color: '#163343' }}>
+        {settings.weeklyFreezes} заморозк{settings.weeklyFreezes === 1 ? 'а' : 'и'} в неделю спасают серию, если день пропущен.
+      </p>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 13 }}>
+        <span>Тратить заморозку автоматически</span>
+        <input
+          type="checkbox"
+          role="switch"
+          aria-checked={settings.autoFreeze}
+          checked={settings.autoFreeze}
+          onChange={(event) => void onSettingsChange({ autoFreeze: event.target.checked })}
+        />
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 13 }}>
+        <label htmlFor="snooze-select">«Напомнить позже» в уведомлении</label>
+        <select
+          id="snooze-select"
+          value={settings.snoozeMinutes}
+          onChange={(event) => void onSettingsChange({ snoozeMinutes: Number(event.target.value) })}
+          style={snoozeSelectStyle}
+        >
+          {/* Keep a value set elsewhere (e.g. by an import) selectable. */}
+          {[...new Set([...SNOOZE_CHOICES, settings.snoozeMinutes])].sort((a, b) => a - b).map((minutes) => (
+            <option key={minutes} value={minutes}>
+              через {minutes} мин
+            </option>
+          ))}
+        </select>
+      </div>
+      {sorted.length > 0 ? (
+        <ul style={streakListStyle}>
+          {sorted.map((streak) => {
+            const freezesLeft = today ? refillFreezes(streak, today, settings).frozenDaysLeft ?? 0 : streak.frozenDaysLeft ?? 0;
+            const canFreeze = today !== null && applyManualFreeze(streak, today, settings) !== null;
+            return (
+              <li key={streak.siteId} style={streakItemStyle}>
+                <span style={{ fontWeight: 600 }}>{streak.siteId}</span>
+                <span style={{ fontSize: 12 }}>
+                  🔥 {streak.length} • ❄️ {freezesLeft}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleFreeze(streak.siteId)}
+                  disabled={!canFreeze}
+                  style={{ ...freezeButtonStyle, opacity: canFreeze ? 1 : 0.45 }}
+                  aria-label={`Заморозить серию ${streak.siteId}`}
+                >
+                  Заморозить
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p style={{ margin: 0, fontSize: 12, color: '#1c2740' }}>Серий пока нет — закрой дневную цель на любом сайте.</p>
+      )}
+      {error ? (
+        <p role="alert" style={{ margin: 0, fontSize: 12, color: '#7a1230' }}>
+          {error}
+        </p>
+      ) : null}
+    </section>
+  );
+}
+
+const streakListStyle: React.CSSProperties = {
+  listStyle: 'none',
+  margin: 0,
+  padding: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 10
+};
+
+const streakItemStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '1fr auto auto',
+  alignItems: 'center',
+  gap: 12,
+  padding: '10px 14px',
+  borderRadius: 16,
+  background: 'rgba(255,255,255,0.6)',
+  border: '1px solid rgba(106,90,249,0.22)',
+  color: '#162136'
+};
+
+const snoozeSelectStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  borderRadius: 12,
+  border: '1px solid rgba(106,90,249,0.3)',
+  background: 'rgba(255,255,255,0.6)',
+  color: '#162136'
+};
+
+const freezeButtonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: 14,
+  border: '1px solid rgba(108,231,255,0.6)',
+  background: 'rgba(108,231,255,0.22)',
+  color: '#1b1f33',
+  fontWeight: 600,
+  cursor: 'pointer'
+};
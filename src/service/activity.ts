@@ -1,25 +1,67 @@
-import { ActivitySlot, Session, Settings, Streak, QuietHoursEvaluation } from '../shared/types.js';
-import { upsertSession, upsertStreak } from '../shared/storage.js';
+import {
+  ActivitySlot,
+  QuietHoursEvaluation,
+  QuietHoursRange,
+  Session,
+  Settings,
+  Site,
+  Streak
+} from '../shared/types.js';
+import { findSession, upsertSession, upsertStreak } from '../shared/storage.js';
+import { normalizePageUrl, resolveSiteForUrl } from '../shared/sites.js';
+import { formatDateKey, getZonedParts, zonedTimeToEpoch } from '../shared/timezone.js';
+import { creditedSlotSeconds } from './activityQuality.js';
+
+export { parseTzOffsetMinutes } from '../shared/timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const HOURS_PER_DAY = 24;
+// 21:00 local, about three hours before an unpractised day ends.
+const STREAK_WARNING_MINUTE = 21 * 60;
+
+/** Wall-clock window a single activity slot stands for; overlays send one slot per window. */
+export const SLOT_WINDOW_MS = 12_000;
+
+/** Epoch ms up to which each site's time has been credited. */
+export type SlotLedger = Record<string, number>;
 
 export interface AggregatedData {
   sessions: Session[];
   streaks: Streak[];
+  sites?: Site[];
 }
 
 export function toDateKey(timestamp: number, tz: string): string {
-  const offsetMinutes = parseTzOffsetMinutes(tz);
-  const date = new Date(timestamp + offsetMinutes * 60 * 1000);
-  return date.toISOString().slice(0, 10);
+  return formatDateKey(getZonedParts(timestamp, tz));
 }
 
-export function parseTzOffsetMinutes(tz: string): number {
-  const match = tz.match(/([+-])(\d{2}):(\d{2})/);
-  if (!match) {
-    return 0;
+export function resolveSlotSiteId(slot: ActivitySlot, sites: Site[]): string {
+  return resolveSiteForUrl(slot.url, sites)?.id ?? slot.siteId;
+}
+
+/**
+ * Credits each moment of a site's time once. A slot stands for the `durationSec`
+ * before its timestamp and only the part after the site's last credited moment
+ * counts, so parallel tabs add up to real elapsed time while a single tab keeps
+ * every second even when its timer jitters. Returns null for a slot with nothing
+ * new; durations are capped at the window length.
+ */
+export function reconcileActivitySlot(
+  slot: ActivitySlot,
+  sites: Site[],
+  ledger: SlotLedger
+): { slot: ActivitySlot; ledger: SlotLedger } | null {
+  const siteId = resolveSlotSiteId(slot, sites);
+  const durationSec = Math.min(slot.durationSec, SLOT_WINDOW_MS / 1000);
+  const lastEnd = ledger[siteId];
+  const creditedSec = lastEnd === undefined ? durationSec : Math.min(durationSec, (slot.timestamp - lastEnd) / 1000);
+  if (creditedSec <= 0) {
+    return null;
   }
-  const [, sign, hours, minutes] = match;
-  const value = Number(hours) * 60 + Number(minutes);
-  return sign === '-' ? -value : value;
+  return {
+    slot: { ...slot, durationSec: creditedSec },
+    ledger: { ...ledger, [siteId]: slot.timestamp }
+  };
 }
 
 export function mergeActivitySlot(
@@ -27,96 +69,323 @@ export function mergeActivitySlot(
   data: AggregatedData,
   settings: Settings
 ): AggregatedData {
-  const { sessions, streaks } = data;
+  const { sessions, streaks, sites = [] } = data;
+  const site = resolveSiteForUrl(slot.url, sites);
+  const siteId = site?.id ?? slot.siteId;
   const dateKey = toDateKey(slot.timestamp, settings.tz);
-  const sessionId = `${slot.siteId}:${dateKey}`;
-  const minutesDelta = slot.durationSec / 60;
-
-  const existingSession = sessions.find((session) => session.id === sessionId);
-  const nextSession: Session = existingSession
-    ? { ...existingSession, activeMinutes: roundMinutes(existingSession.activeMinutes + minutesDelta) }
-    : {
-        id: sessionId,
-        siteId: slot.siteId,
-        date: dateKey,
-        activeMinutes: roundMinutes(minutesDelta)
-      };
+  const sessionId = `${siteId}:${dateKey}`;
+  const minutesDelta = creditedSlotSeconds(slot.durationSec, slot.confidence) / 60;
+  const mediaDelta = slot.kind === 'media' ? minutesDelta : 0;
+
+  const hour = getZonedParts(slot.timestamp, settings.tz).hour;
+  const page = settings.pageTracking ? normalizePageUrl(slot.url) : null;
+
+  const existingSession = findSession(sessions, sessionId);
+  const nextSession = addSessionMinutes(
+    existingSession ?? { id: sessionId, siteId, date: dateKey, activeMinutes: 0 },
+    minutesDelta,
+    mediaDelta,
+    {
+      hourlyMinutes: Array.from({ length: HOURS_PER_DAY }, (_, index) => (index === hour ? minutesDelta : 0)),
+      pageMinutes: page ? { [page]: minutesDelta } : undefined
+    }
+  );
 
   const nextSessions = upsertSession(sessions, nextSession);
-  const nextStreaks = ensureStreakProgress(nextSession, streaks, settings);
+  const nextStreaks = ensureStreakProgress(nextSession, streaks, settings, site);
+
+  return { sessions: nextSessions, streaks: nextStreaks, sites };
+}
+
+/** Optional breakdowns that are summed along with a session's minutes. */
+export type SessionDetail = Pick<Session, 'hourlyMinutes' | 'pageMinutes'>;
+
+/**
+ * Adds minutes to a session; `mediaMinutes` is only written once media time was
+ * credited, and hourly or per-page breakdowns are summed when given.
+ */
+export function addSessionMinutes(
+  session: Session,
+  activeMinutes: number,
+  mediaMinutes: number,
+  { hourlyMinutes, pageMinutes }: SessionDetail = {}
+): Session {
+  const next: Session = { ...session, activeMinutes: roundMinutes(session.activeMinutes + activeMinutes) };
+  if (hourlyMinutes) {
+    const current = session.hourlyMinutes ?? new Array<number>(HOURS_PER_DAY).fill(0);
+    next.hourlyMinutes = current.map((value, hour) => roundMinutes(value + (hourlyMinutes[hour] ?? 0)));
+  }
+  if (pageMinutes) {
+    next.pageMinutes = addPageMinutes(session.pageMinutes ?? {}, pageMinutes);
+  }
+  if (mediaMinutes > 0 || session.mediaMinutes !== undefined) {
+    next.mediaMinutes = roundMinutes((session.mediaMinutes ?? 0) + mediaMinutes);
+  }
+  return next;
+}
+
+// Past this many pages a day, further pages of the session share one bucket.
+export const MAX_PAGES_PER_SESSION = 50;
+export const OTHER_PAGES_KEY = '*';
 
-  return { sessions: nextSessions, streaks: nextStreaks };
+function addPageMinutes(current: Record<string, number>, added: Record<string, number>): Record<string, number> {
+  const next = { ...current };
+  for (const [page, minutes] of Object.entries(added)) {
+    const key = page in next || Object.keys(next).length < MAX_PAGES_PER_SESSION ? page : OTHER_PAGES_KEY;
+    next[key] = roundMinutes((next[key] ?? 0) + minutes);
+  }
+  return next;
+}
+
+/** Drops per-page minutes, e.g. once page tracking is switched off. */
+export function forgetPageMinutes(sessions: Session[]): Session[] {
+  if (!sessions.some((session) => session.pageMinutes)) {
+    return sessions;
+  }
+  return sessions.map(({ pageMinutes: _pageMinutes, ...session }) => session);
+}
+
+/** Media slots only count on sites that opted in to media tracking. */
+export function isSlotKindAllowed(slot: ActivitySlot, sites: Site[]): boolean {
+  return slot.kind !== 'media' || resolveSiteForUrl(slot.url, sites)?.mediaTracking === true;
 }
 
 function roundMinutes(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
-export function ensureStreakProgress(session: Session, streaks: Streak[], settings: Settings): Streak[] {
+export function resolveDailyGoalMinutes(site: Site | null, settings: Settings): number {
+  return Math.max(site?.dailyGoalMin ?? settings.sessionLengthMinutes, 1);
+}
+
+export function ensureStreakProgress(
+  session: Session,
+  streaks: Streak[],
+  settings: Settings,
+  site: Site | null = null
+): Streak[] {
   const existing = streaks.find((item) => item.siteId === session.siteId);
-  const requiredMinutes = Math.max(settings.sessionLengthMinutes, 1);
+  const requiredMinutes = resolveDailyGoalMinutes(site, settings);
   if (session.activeMinutes < requiredMinutes) {
     return streaks;
   }
 
   const today = session.date;
   if (!existing) {
-    const newStreak: Streak = { siteId: session.siteId, length: 1, lastDate: today };
+    const newStreak: Streak = refillFreezes({ siteId: session.siteId, length: 1, lastDate: today }, today, settings);
     return upsertStreak(streaks, newStreak);
   }
 
-  if (existing.lastDate === today) {
+  const diffDays = daysBetween(existing.lastDate, today);
+  // Same day, or a day that lies behind lastDate after the user moved west.
+  if (diffDays <= 0) {
     return streaks;
   }
 
-  const lastDate = new Date(existing.lastDate);
-  const currentDate = new Date(today);
-  const diffDays = Math.round((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+  const refilled = refillFreezes(existing, today, settings);
 
   if (diffDays === 1) {
     const updated: Streak = {
-      ...existing,
+      ...refilled,
       length: existing.length + 1,
       lastDate: today
     };
     return upsertStreak(streaks, updated);
   }
 
-  // streak broken, start over
-  const reset: Streak = { siteId: session.siteId, length: 1, lastDate: today };
+  const missedDays = diffDays - 1;
+  if (settings.autoFreeze && missedDays > 0 && missedDays <= (refilled.frozenDaysLeft ?? 0)) {
+    const bridged: Streak = {
+      ...consumeFreezes(refilled, missedDays),
+      length: existing.length + 1,
+      lastDate: today
+    };
+    return upsertStreak(streaks, bridged);
+  }
+
+  // streak broken, start over; a partial freeze allowance is kept for next time
+  const { frozenDates: _dropped, ...rest } = refilled;
+  const reset: Streak = { ...rest, length: 1, lastDate: today };
   return upsertStreak(streaks, reset);
 }
 
+/**
+ * Freezes the days missed between the last recorded day and `today` (exclusive) so
+ * practising today still extends the streak. Returns null when nothing is missed or
+ * the weekly allowance cannot cover every day.
+ */
+export function applyManualFreeze(streak: Streak, today: string, settings: Settings): Streak | null {
+  const missedDays = daysBetween(streak.lastDate, today) - 1;
+  if (streak.length === 0 || missedDays < 1) {
+    return null;
+  }
+  const refilled = refillFreezes(streak, today, settings);
+  if (missedDays > (refilled.frozenDaysLeft ?? 0)) {
+    return null;
+  }
+  return { ...consumeFreezes(refilled, missedDays), lastDate: shiftDateKey(today, -1) };
+}
+
+/** Resets the allowance to `settings.weeklyFreezes` once per ISO week. */
+export function refillFreezes(streak: Streak, today: string, settings: Settings): Streak {
+  const week = toIsoWeekKey(today);
+  if (streak.freezeWeek === week) {
+    return streak;
+  }
+  return { ...streak, frozenDaysLeft: Math.max(settings.weeklyFreezes, 0), freezeWeek: week };
+}
+
+function consumeFreezes(streak: Streak, days: number): Streak {
+  const frozen = Array.from({ length: days }, (_, index) => shiftDateKey(streak.lastDate, index + 1));
+  return {
+    ...streak,
+    frozenDaysLeft: (streak.frozenDaysLeft ?? 0) - days,
+    frozenDates: [...(streak.frozenDates ?? []), ...frozen]
+  };
+}
+
+export function toIsoWeekKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const weekday = date.getUTCDay() || 7;
+  // Thursday of the same ISO week decides which year the week belongs to.
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/** Monday of the ISO week holding the date key. */
+export function startOfIsoWeek(dateKey: string): string {
+  const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay() || 7;
+  return shiftDateKey(dateKey, 1 - weekday);
+}
+
+export function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / DAY_MS);
+}
+
+export function shiftDateKey(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
 export function evaluateQuietHours(settings: Settings, date: Date): QuietHoursEvaluation {
-  if (settings.quietHours.length === 0) {
-    return { withinQuietHours: false, activeRange: null };
+  const ranges = settings.quietHours.filter((range) => range.start !== range.end);
+  if (ranges.length === 0) {
+    return { withinQuietHours: false, activeRange: null, nextBoundary: null };
   }
 
-  const localHour = date.getHours();
-  for (const [start, end] of settings.quietHours) {
-    if (start === end) {
-      continue; // empty range
+  const now = date.getTime();
+  const activeRange = findActiveQuietRange(ranges, now, settings.tz);
+  const withinQuietHours = activeRange !== null;
+
+  // Candidate boundaries are every range start/end over the coming week; the first
+  // one that flips the state is the real boundary (overlapping ranges are skipped).
+  const today = toDateKey(now, settings.tz);
+  const candidates: number[] = [];
+  for (let offset = -1; offset <= 7; offset += 1) {
+    const dayKey = shiftDateKey(today, offset);
+    const weekday = new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+    for (const range of ranges) {
+      if (range.days.length > 0 && !range.days.includes(weekday)) {
+        continue;
+      }
+      candidates.push(zonedTimeToEpoch(dayKey, range.start, settings.tz));
+      const endDay = range.start < range.end ? dayKey : shiftDateKey(dayKey, 1);
+      candidates.push(zonedTimeToEpoch(endDay, range.end, settings.tz));
     }
-    if (start < end) {
-      if (localHour >= start && localHour < end) {
-        return { withinQuietHours: true, activeRange: [start, end] };
+  }
+  const nextBoundary =
+    candidates
+      .filter((candidate) => candidate > now)
+      .sort((a, b) => a - b)
+      .find((candidate) => (findActiveQuietRange(ranges, candidate, settings.tz) !== null) !== withinQuietHours) ?? null;
+
+  return { withinQuietHours, activeRange, nextBoundary };
+}
+
+function findActiveQuietRange(ranges: QuietHoursRange[], timestamp: number, tz: string): QuietHoursRange | null {
+  const parts = getZonedParts(timestamp, tz);
+  const minuteOfDay = parts.hour * 60 + parts.minute;
+  const yesterday = (parts.weekday + 6) % 7;
+  const appliesOn = (range: QuietHoursRange, weekday: number) => range.days.length === 0 || range.days.includes(weekday);
+  for (const range of ranges) {
+    if (range.start < range.end) {
+      if (appliesOn(range, parts.weekday) && minuteOfDay >= range.start && minuteOfDay < range.end) {
+        return range;
       }
     } else {
-      // overnight range e.g. 22-7
-      if (localHour >= start || localHour < end) {
-        return { withinQuietHours: true, activeRange: [start, end] };
+      // overnight range e.g. 22:30-07:15 belongs to the weekday it starts on
+      if ((appliesOn(range, parts.weekday) && minuteOfDay >= range.start) || (appliesOn(range, yesterday) && minuteOfDay < range.end)) {
+        return range;
       }
     }
   }
-  return { withinQuietHours: false, activeRange: null };
+  return null;
+}
+
+/**
+ * Epoch ms span in which a streak is worth a warning: the evening of the day
+ * after its last recorded day, from 21:00 local until that day ends and the
+ * streak breaks. Wall-clock based, so DST days keep the same local hours.
+ */
+export function streakWarningWindow(streak: Streak, tz: string): { from: number; to: number } {
+  const atRisk = shiftDateKey(streak.lastDate, 1);
+  return {
+    from: zonedTimeToEpoch(atRisk, STREAK_WARNING_MINUTE, tz),
+    to: zonedTimeToEpoch(shiftDateKey(atRisk, 1), 0, tz)
+  };
 }
 
 export function shouldWarnStreakExpiry(streak: Streak, now: Date, settings: Settings): boolean {
   if (streak.length === 0) {
     return false;
   }
-  const lastDate = new Date(streak.lastDate + 'T00:00:00');
-  const diffHours = (now.getTime() - lastDate.getTime()) / (1000 * 60 * 60);
-  // warn 21 hours after last recorded day (~3 hours before midnight)
-  return diffHours >= 21 && diffHours < 48 && settings.notifications;
+  const { from, to } = streakWarningWindow(streak, settings.tz);
+  return now.getTime() >= from && now.getTime() < to && settings.notifications;
+}
+
+/**
+ * Re-anchors data when the user switches time zone. Past days stay as recorded;
+ * today's sessions move to the new zone's "today" (merging minutes), and streaks
+ * that are still alive shift with the calendar so the switch alone never breaks
+ * or double-counts a day.
+ */
+export function rebaseForTimeZoneChange(
+  data: AggregatedData,
+  previousTz: string,
+  nextTz: string,
+  now: number
+): AggregatedData {
+  const previousToday = toDateKey(now, previousTz);
+  const nextToday = toDateKey(now, nextTz);
+  const shift = daysBetween(previousToday, nextToday);
+  if (shift === 0) {
+    return data;
+  }
+
+  let sessions = data.sessions.filter((session) => session.date !== previousToday);
+  for (const session of data.sessions) {
+    if (session.date !== previousToday) {
+      continue;
+    }
+    const id = `${session.siteId}:${nextToday}`;
+    const existing = findSession(sessions, id);
+    sessions = upsertSession(
+      sessions,
+      existing
+        ? addSessionMinutes(existing, session.activeMinutes, session.mediaMinutes ?? 0, session)
+        : { ...session, id, date: nextToday }
+    );
+  }
+
+  const streaks = data.streaks.map((streak) => {
+    const alive = daysBetween(streak.lastDate, previousToday) <= 1;
+    if (!alive) {
+      return streak;
+    }
+    const shifted = shiftDateKey(streak.lastDate, shift);
+    return { ...streak, lastDate: shifted > nextToday ? nextToday : shifted };
+  });
+
+  return { ...data, sessions, streaks };
 }
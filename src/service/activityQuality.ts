@@ -0,0 +1,129 @@
+export type ActivitySampleKind = 'keydown' | 'pointerdown' | 'pointermove' | 'wheel' | 'scroll' | 'visibilitychange';
+
+/** One input event as seen by the overlay, reduced to what the scorer needs. */
+export interface ActivitySample {
+  kind: ActivitySampleKind;
+  at: number; // epoch ms
+  trusted: boolean;
+  x?: number; // pointer position
+  y?: number;
+  key?: string;
+  repeat?: boolean;
+  delta?: number; // wheel deltaY or scroll offset change
+}
+
+export type ActivityFlag = 'untrusted' | 'key-repeat' | 'mouse-jiggler' | 'auto-scroll' | 'no-input';
+
+export interface ActivityQuality {
+  confidence: number; // 0..1
+  flags: ActivityFlag[];
+}
+
+/** Slots scored below this earn no time at all. */
+export const MIN_SLOT_CONFIDENCE = 0.25;
+
+const MIN_PATTERN_SAMPLES = 8;
+const REGULAR_PATTERN_CV = 0.15;
+const FLAG_CONFIDENCE: Record<ActivityFlag, number> = {
+  untrusted: 0,
+  'no-input': 0,
+  'mouse-jiggler': 0.1,
+  'auto-scroll': 0.2,
+  'key-repeat': 0.3
+};
+
+/**
+ * Scores the inputs behind one activity slot. Synthetic events are dropped first;
+ * the rest is checked for held keys, jiggled pointers and scrolling by identical steps.
+ * Any genuine click or varied typing keeps the slot at full confidence.
+ */
+export function scoreActivitySamples(samples: ActivitySample[]): ActivityQuality {
+  const trusted = samples.filter((sample) => sample.trusted);
+  const inputs = trusted.filter((sample) => sample.kind !== 'visibilitychange');
+  if (inputs.length === 0) {
+    const flag: ActivityFlag = samples.some((sample) => !sample.trusted) ? 'untrusted' : 'no-input';
+    return { confidence: FLAG_CONFIDENCE[flag], flags: [flag] };
+  }
+
+  const keys = inputs.filter((sample) => sample.kind === 'keydown');
+  const moves = inputs.filter((sample) => sample.kind === 'pointermove');
+  const scrolls = inputs.filter((sample) => sample.kind === 'wheel' || sample.kind === 'scroll');
+  const hasClicks = inputs.some((sample) => sample.kind === 'pointerdown');
+  const hasVariedTyping = keys.filter((sample) => !sample.repeat).length >= 2 && new Set(keys.map((sample) => sample.key)).size >= 2;
+
+  const flags: ActivityFlag[] = [];
+  if (!hasClicks && !hasVariedTyping) {
+    if (isKeyRepeat(keys) && moves.length + scrolls.length === 0) {
+      flags.push('key-repeat');
+    }
+    if (isMouseJiggler(moves) && keys.length + scrolls.length === 0) {
+      flags.push('mouse-jiggler');
+    }
+    if (isAutoScroll(scrolls) && keys.length + moves.length === 0) {
+      flags.push('auto-scroll');
+    }
+  }
+  if (samples.length !== trusted.length) {
+    flags.push('untrusted');
+  }
+
+  const suspicious = flags.filter((flag) => flag !== 'untrusted');
+  const confidence = suspicious.length === 0 ? 1 : Math.min(...suspicious.map((flag) => FLAG_CONFIDENCE[flag]));
+  return { confidence, flags };
+}
+
+/** Seconds of credit a slot earns; slots without a confidence count in full. */
+export function creditedSlotSeconds(durationSec: number, confidence: number | undefined): number {
+  if (confidence === undefined) {
+    return durationSec;
+  }
+  if (confidence < MIN_SLOT_CONFIDENCE) {
+    return 0;
+  }
+  return durationSec * Math.min(confidence, 1);
+}
+
+function isKeyRepeat(keys: ActivitySample[]): boolean {
+  if (keys.length < MIN_PATTERN_SAMPLES) {
+    return false;
+  }
+  const repeated = keys.filter((sample) => sample.repeat).length;
+  return repeated / keys.length >= 0.8 || (new Set(keys.map((sample) => sample.key)).size === 1 && isRegular(keys));
+}
+
+function isMouseJiggler(moves: ActivitySample[]): boolean {
+  if (moves.length < MIN_PATTERN_SAMPLES) {
+    return false;
+  }
+  const positions = new Set(moves.map((sample) => `${Math.round(sample.x ?? 0)}:${Math.round(sample.y ?? 0)}`));
+  const xs = moves.map((sample) => sample.x ?? 0);
+  const ys = moves.map((sample) => sample.y ?? 0);
+  const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  // A jiggler nudges the cursor back and forth between a few pixels. Timing says nothing here:
+  // browsers deliver real pointer moves at frame rate, so their gaps are always even.
+  return positions.size <= 3 || span <= 4;
+}
+
+function isAutoScroll(scrolls: ActivitySample[]): boolean {
+  if (scrolls.length < MIN_PATTERN_SAMPLES) {
+    return false;
+  }
+  const deltas = scrolls.map((sample) => sample.delta ?? 0);
+  const sameDirection = deltas.every((delta) => delta > 0) || deltas.every((delta) => delta < 0);
+  // Wheel and scroll events also arrive at frame rate, so only the step sizes are compared.
+  return sameDirection && coefficientOfVariation(deltas) <= REGULAR_PATTERN_CV;
+}
+
+function isRegular(samples: ActivitySample[]): boolean {
+  const intervals = samples.slice(1).map((sample, index) => sample.at - samples[index].at);
+  return intervals.length >= MIN_PATTERN_SAMPLES - 1 && coefficientOfVariation(intervals) <= REGULAR_PATTERN_CV;
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  if (mean === 0) {
+    return 0;
+  }
+  const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / Math.abs(mean);
+}
@@ -0,0 +1,116 @@
+import { FocusModeState, FocusRun, FocusRunOutcome, FocusRunRecord } from '../shared/types.js';
+
+export const FOCUS_ALARMS = {
+  warning: 'focus-warning',
+  end: 'focus-end'
+} as const;
+
+export type FocusAlarmName = (typeof FOCUS_ALARMS)[keyof typeof FOCUS_ALARMS];
+
+export const FOCUS_WARNING_LEAD_MS = 60_000;
+export const FOCUS_EXTEND_MINUTES = 5;
+export const FOCUS_HISTORY_LIMIT = 500;
+
+export interface FocusAlarmPlan {
+  name: FocusAlarmName;
+  when: number;
+}
+
+export function createFocusRun(state: FocusModeState, streakLength = 0): FocusRun {
+  return {
+    siteId: state.siteId,
+    startedAt: state.startedAt,
+    durationMinutes: state.durationMinutes,
+    endsAt: state.startedAt + state.durationMinutes * 60_000,
+    endingNotified: false,
+    pausedAt: null,
+    pauses: [],
+    extendedMinutes: 0,
+    streakLength
+  };
+}
+
+export function isFocusAlarm(name: string): name is FocusAlarmName {
+  return name === FOCUS_ALARMS.warning || name === FOCUS_ALARMS.end;
+}
+
+export function pauseFocusRun(run: FocusRun, now: number): FocusRun {
+  if (run.pausedAt !== null) {
+    return run;
+  }
+  return { ...run, pausedAt: Math.min(now, run.endsAt) };
+}
+
+/** Closes the open pause and pushes the end back by its length. */
+export function resumeFocusRun(run: FocusRun, now: number): FocusRun {
+  if (run.pausedAt === null) {
+    return run;
+  }
+  const endedAt = Math.max(now, run.pausedAt);
+  return {
+    ...run,
+    endsAt: run.endsAt + (endedAt - run.pausedAt),
+    pausedAt: null,
+    pauses: [...run.pauses, { startedAt: run.pausedAt, endedAt }]
+  };
+}
+
+/** Adds minutes to the run; the one-minute warning is re-armed when the new end leaves room for it. */
+export function extendFocusRun(run: FocusRun, minutes: number, now: number): FocusRun {
+  const endsAt = run.endsAt + minutes * 60_000;
+  const remaining = endsAt - (run.pausedAt ?? now);
+  return {
+    ...run,
+    durationMinutes: run.durationMinutes + minutes,
+    extendedMinutes: run.extendedMinutes + minutes,
+    endsAt,
+    endingNotified: run.endingNotified && remaining <= FOCUS_WARNING_LEAD_MS
+  };
+}
+
+export function focusRemainingMs(run: FocusRun, now: number): number {
+  return Math.max(0, run.endsAt - (run.pausedAt ?? now));
+}
+
+export function isFocusRunOver(run: FocusRun, now: number): boolean {
+  return run.pausedAt === null && now >= run.endsAt;
+}
+
+/**
+ * Alarms still due for a run. The warning is skipped once shown or when the run is
+ * shorter than the lead time; a run restored after its end only gets the end alarm.
+ * A paused run has no alarms until it resumes.
+ */
+export function planFocusAlarms(run: FocusRun, now: number): FocusAlarmPlan[] {
+  if (run.pausedAt !== null) {
+    return [];
+  }
+  const plan: FocusAlarmPlan[] = [];
+  const warningAt = run.endsAt - FOCUS_WARNING_LEAD_MS;
+  if (!run.endingNotified && warningAt > now && warningAt > run.startedAt) {
+    plan.push({ name: FOCUS_ALARMS.warning, when: warningAt });
+  }
+  plan.push({ name: FOCUS_ALARMS.end, when: Math.max(run.endsAt, now) });
+  return plan;
+}
+
+/** Turns a run into its history record; an open pause is closed at the end time. */
+export function finishFocusRun(run: FocusRun, outcome: FocusRunOutcome, now: number): FocusRunRecord {
+  const endedAt = outcome === 'completed' ? Math.min(now, run.endsAt) : now;
+  const pauses = run.pausedAt === null ? run.pauses : [...run.pauses, { startedAt: run.pausedAt, endedAt }];
+  const pausedMs = pauses.reduce((total, pause) => total + (pause.endedAt - pause.startedAt), 0);
+  return {
+    siteId: run.siteId,
+    startedAt: run.startedAt,
+    endedAt,
+    plannedMinutes: run.durationMinutes - run.extendedMinutes,
+    extendedMinutes: run.extendedMinutes,
+    focusedMs: Math.max(0, endedAt - run.startedAt - pausedMs),
+    outcome,
+    pauses
+  };
+}
+
+export function appendFocusHistory(history: FocusRunRecord[], record: FocusRunRecord): FocusRunRecord[] {
+  return [...history, record].slice(-FOCUS_HISTORY_LIMIT);
+}
@@ -0,0 +1,54 @@
+import { ActivitySlot } from '../shared/types.js';
+
+export type SystemIdleState = 'active' | 'idle' | 'locked';
+
+export interface IdleTransition {
+  state: SystemIdleState;
+  at: number; // epoch ms when chrome.idle reported the change
+}
+
+const IDLE_LOG_LIMIT = 20;
+
+export function appendIdleTransition(log: IdleTransition[], transition: IdleTransition): IdleTransition[] {
+  return [...log, transition].slice(-IDLE_LOG_LIMIT);
+}
+
+/**
+ * Cross-checks a content heartbeat with the system idle state. Slots reported while
+ * the machine is idle or locked are dropped; a slot whose window overlaps an idle or
+ * locked stretch keeps only the seconds after the machine became active again.
+ *
+ * chrome.idle reports `idle` only after `thresholdSec` without input, so that stretch
+ * is taken to start that much earlier. A stretch with no later `active` transition in
+ * the log is treated as lasting until the slot was reported. Media slots are expected
+ * to come without input, so for them only a locked screen counts.
+ */
+export function applySystemIdle(
+  slot: ActivitySlot,
+  current: SystemIdleState,
+  log: IdleTransition[],
+  thresholdSec: number
+): ActivitySlot | null {
+  const isInactive = (state: SystemIdleState) => state === 'locked' || (state === 'idle' && slot.kind !== 'media');
+  if (isInactive(current)) {
+    return null;
+  }
+  const windowStart = slot.timestamp - slot.durationSec * 1000;
+  let activeFrom = windowStart;
+  log.forEach((transition, index) => {
+    if (!isInactive(transition.state)) {
+      return;
+    }
+    const inactiveFrom = transition.state === 'idle' ? transition.at - thresholdSec * 1000 : transition.at;
+    const resumed = log.slice(index + 1).find((next) => !isInactive(next.state));
+    const inactiveUntil = Math.min(resumed?.at ?? slot.timestamp, slot.timestamp);
+    if (inactiveFrom < slot.timestamp && inactiveUntil > activeFrom) {
+      activeFrom = inactiveUntil;
+    }
+  });
+  const durationSec = Math.round(((slot.timestamp - activeFrom) / 1000) * 100) / 100;
+  if (durationSec <= 0) {
+    return null;
+  }
+  return durationSec === slot.durationSec ? slot : { ...slot, durationSec };
+}
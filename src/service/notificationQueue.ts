@@ -0,0 +1,63 @@
+import { NotificationPriority, NotificationRequest, QueuedNotification } from '../shared/types.js';
+
+export const NOTIFICATION_QUEUE_LIMIT = 20;
+export const QUEUED_NOTIFICATION_TTL_MS = 12 * 60 * 60_000;
+export const QUIET_DIGEST_ID = 'quiet-digest';
+export const NOTIFICATION_FLUSH_ALARM = 'notification-queue:flush';
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { low: 0, normal: 1, high: 2 };
+
+/** A notification to show once quiet hours end; several held ones collapse into a list. */
+export interface NotificationDelivery extends NotificationRequest {
+  items: { title: string; message: string }[];
+}
+
+/** Low priority notifications are turned into overlay nudges instead of waiting. */
+export function shouldHoldNotification(request: NotificationRequest): boolean {
+  return request.priority !== 'low';
+}
+
+/**
+ * Adds a held notification, replacing one with the same id. Over the limit the
+ * least important, then oldest, entries go first.
+ */
+export function enqueueNotification(
+  queue: QueuedNotification[],
+  request: NotificationRequest,
+  now: number
+): QueuedNotification[] {
+  const item: QueuedNotification = { ...request, queuedAt: now, expiresAt: now + QUEUED_NOTIFICATION_TTL_MS };
+  return sortByImportance([...queue.filter((queued) => queued.id !== request.id), item]).slice(0, NOTIFICATION_QUEUE_LIMIT);
+}
+
+/**
+ * Collapses what is still worth showing into one delivery: the most important
+ * entry leads and its site and buttons apply. Expired and stale entries are
+ * dropped; null when nothing is left.
+ */
+export function collapseQueue(
+  queue: QueuedNotification[],
+  now: number,
+  isStale: (item: QueuedNotification) => boolean = () => false
+): NotificationDelivery | null {
+  const live = sortByImportance(queue.filter((item) => item.expiresAt > now && !isStale(item)));
+  if (live.length === 0) {
+    return null;
+  }
+  const [lead] = live;
+  const { queuedAt: _queuedAt, expiresAt: _expiresAt, ...request } = lead;
+  if (live.length === 1) {
+    return { ...request, items: [] };
+  }
+  return {
+    ...request,
+    id: QUIET_DIGEST_ID,
+    title: `Пока было тихо: ${live.length}`,
+    message: lead.message,
+    items: live.map((item) => ({ title: item.title, message: item.message }))
+  };
+}
+
+function sortByImportance(queue: QueuedNotification[]): QueuedNotification[] {
+  return [...queue].sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.queuedAt - b.queuedAt);
+}
@@ -0,0 +1,32 @@
+import { NotificationAction, Settings, Site } from '../shared/types.js';
+import { FOCUS_EXTEND_MINUTES } from './focus.js';
+
+export const QUICK_START_MINUTES = 5;
+
+const SNOOZE_ALARM_PREFIX = 'streak-snooze:';
+
+export function notificationButtonTitle(action: NotificationAction, settings: Settings): string {
+  switch (action) {
+    case 'start-focus':
+      return `Старт ${QUICK_START_MINUTES} мин`;
+    case 'extend-focus':
+      return `+${FOCUS_EXTEND_MINUTES} минут`;
+    case 'snooze':
+      return `Напомнить через ${settings.snoozeMinutes} мин`;
+  }
+}
+
+export function snoozeAlarmName(siteId: string): string {
+  return `${SNOOZE_ALARM_PREFIX}${siteId}`;
+}
+
+/** Site held back by a snooze alarm, or null for any other alarm. */
+export function snoozedSiteId(alarmName: string): string | null {
+  return alarmName.startsWith(SNOOZE_ALARM_PREFIX) ? alarmName.slice(SNOOZE_ALARM_PREFIX.length) : null;
+}
+
+/** Where a notification click lands: the tracked path on the site, or its bare host. */
+export function siteLandingUrl(siteId: string, sites: Site[]): string {
+  const site = sites.find((item) => item.id === siteId);
+  return site ? `https://${site.pattern}${site.pathPrefix ?? ''}` : `https://${siteId}`;
+}
@@ -0,0 +1,136 @@
+import { createChromeBackend, StorageBackend } from '../shared/backend.js';
+import { DEFAULT_SETTINGS } from '../shared/defaults.js';
+import { UserData } from '../shared/types.js';
+
+/** Records the worker keeps in memory; each one maps to a backend key. */
+export type RepositoryData = UserData;
+
+export type RepositoryKey = keyof RepositoryData;
+
+export interface Repository {
+  /** Reads every key once; concurrent callers share the same read. */
+  load(): Promise<void>;
+  isLoaded(): boolean;
+  get<K extends RepositoryKey>(key: K): RepositoryData[K];
+  snapshot(): RepositoryData;
+  /** Replaces records in memory and schedules a write of the keys that changed. */
+  update(patch: Partial<RepositoryData>): void;
+  /** Re-reads a key from storage unless it has unsaved changes. */
+  reload(key: RepositoryKey): Promise<void>;
+  /** Writes pending keys right away. */
+  flush(): Promise<void>;
+  dirtyKeys(): RepositoryKey[];
+}
+
+export const REPOSITORY_KEYS: RepositoryKey[] = ['settings', 'sessions', 'rollups', 'streaks', 'sites'];
+export const FLUSH_DEBOUNCE_MS = 2_000;
+
+/**
+ * Write-behind store for the worker. Updates land in memory and mark their key
+ * dirty; a short debounce batches them into one backend write holding only the
+ * keys that changed since the last write. Records are replaced, never mutated,
+ * so a key counts as changed when its value is a different reference.
+ */
+export function createRepository(
+  backend: StorageBackend = createChromeBackend(),
+  debounceMs = FLUSH_DEBOUNCE_MS
+): Repository {
+  let data: RepositoryData | null = null;
+  let loading: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> = Promise.resolve();
+  const dirty = new Set<RepositoryKey>();
+
+  function read(stored: Partial<RepositoryData>): RepositoryData {
+    return {
+      settings: { ...DEFAULT_SETTINGS, ...(stored.settings ?? {}) },
+      sessions: stored.sessions ?? [],
+      rollups: stored.rollups ?? [],
+      streaks: stored.streaks ?? [],
+      sites: stored.sites ?? []
+    };
+  }
+
+  function requireData(): RepositoryData {
+    if (!data) {
+      throw new Error('Repository is not loaded yet');
+    }
+    return data;
+  }
+
+  function schedule() {
+    if (timer !== null) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void flush().catch((error) => console.error('Repository flush failed', error));
+    }, debounceMs);
+  }
+
+  function flush(): Promise<void> {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // Writes are chained so an older snapshot can never land after a newer one; a
+    // failed write was already reported to its caller and must not block the next.
+    flushing = flushing.catch(() => undefined).then(async () => {
+      if (!data || dirty.size === 0) {
+        return;
+      }
+      const keys = [...dirty];
+      const current = data;
+      dirty.clear();
+      try {
+        await backend.write(Object.fromEntries(keys.map((key) => [key, current[key]])));
+      } catch (error) {
+        keys.forEach((key) => dirty.add(key));
+        schedule();
+        throw error;
+      }
+    });
+    return flushing;
+  }
+
+  return {
+    load() {
+      if (!loading) {
+        loading = backend
+          .read(REPOSITORY_KEYS)
+          .then((stored) => {
+            data = read(stored);
+          })
+          .catch((error) => {
+            loading = null;
+            throw error;
+          });
+      }
+      return loading;
+    },
+    isLoaded: () => data !== null,
+    get: (key) => requireData()[key],
+    snapshot: () => requireData(),
+    update(patch) {
+      const current = requireData();
+      const changed = REPOSITORY_KEYS.filter((key) => key in patch && patch[key] !== current[key]);
+      if (changed.length === 0) {
+        return;
+      }
+      data = { ...current, ...patch };
+      changed.forEach((key) => dirty.add(key));
+      schedule();
+    },
+    async reload(key) {
+      if (!data || dirty.has(key)) {
+        return;
+      }
+      const stored = await backend.read([key]);
+      if (!dirty.has(key)) {
+        data = { ...data, [key]: read(stored)[key] };
+      }
+    },
+    flush,
+    dirtyKeys: () => [...dirty]
+  };
+}
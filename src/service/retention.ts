@@ -0,0 +1,93 @@
+import { Session, SessionRollup, Settings } from '../shared/types.js';
+import { shiftDateKey, startOfIsoWeek } from './activity.js';
+
+export interface RetainedData {
+  sessions: Session[];
+  rollups: SessionRollup[];
+}
+
+/**
+ * Rolls daily sessions older than `dailyRetentionDays` into per-site ISO-week
+ * roll-ups, and week roll-ups older than `weeklyRetentionWeeks` into months. A week
+ * belongs to the month of its Thursday, like ISO weeks belong to years. Returns
+ * the input arrays untouched when nothing aged out.
+ */
+export function applyRetention(data: RetainedData, settings: Settings, today: string): RetainedData {
+  const dailyCutoff = shiftDateKey(today, -settings.dailyRetentionDays);
+  const weeklyCutoff = shiftDateKey(today, -settings.weeklyRetentionWeeks * 7);
+
+  const expired = data.sessions.filter((session) => session.date < dailyCutoff);
+  // A week is only merged once all of its days are past the cutoff.
+  const expiredWeeks = data.rollups.filter(
+    (rollup) => rollup.period === 'week' && shiftDateKey(rollup.start, 6) < weeklyCutoff
+  );
+  if (expired.length === 0 && expiredWeeks.length === 0) {
+    return data;
+  }
+
+  const rollups = new Map(data.rollups.map((rollup) => [rollup.id, rollup]));
+  for (const session of expired) {
+    addToRollup(rollups, session.siteId, 'week', startOfIsoWeek(session.date), {
+      activeMinutes: session.activeMinutes,
+      mediaMinutes: session.mediaMinutes ?? 0,
+      activeDays: session.activeMinutes > 0 ? 1 : 0
+    });
+  }
+  for (const week of [...rollups.values()]) {
+    if (week.period !== 'week' || shiftDateKey(week.start, 6) >= weeklyCutoff) {
+      continue;
+    }
+    rollups.delete(week.id);
+    addToRollup(rollups, week.siteId, 'month', `${shiftDateKey(week.start, 3).slice(0, 7)}-01`, {
+      activeMinutes: week.activeMinutes,
+      mediaMinutes: week.mediaMinutes ?? 0,
+      activeDays: week.activeDays
+    });
+  }
+
+  return {
+    sessions: expired.length > 0 ? data.sessions.filter((session) => session.date >= dailyCutoff) : data.sessions,
+    rollups: [...rollups.values()].sort((a, b) => a.start.localeCompare(b.start) || a.siteId.localeCompare(b.siteId))
+  };
+}
+
+export function rollupId(siteId: string, period: SessionRollup['period'], start: string): string {
+  return `${siteId}:${period}:${start}`;
+}
+
+/** Sums roll-ups sharing an id, as an import merge does for sessions. */
+export function mergeRollups(current: SessionRollup[], incoming: SessionRollup[]): SessionRollup[] {
+  const rollups = new Map(current.map((rollup) => [rollup.id, rollup]));
+  for (const rollup of incoming) {
+    addToRollup(rollups, rollup.siteId, rollup.period, rollup.start, {
+      activeMinutes: rollup.activeMinutes,
+      mediaMinutes: rollup.mediaMinutes ?? 0,
+      activeDays: rollup.activeDays
+    });
+  }
+  return [...rollups.values()];
+}
+
+function addToRollup(
+  rollups: Map<string, SessionRollup>,
+  siteId: string,
+  period: SessionRollup['period'],
+  start: string,
+  totals: { activeMinutes: number; mediaMinutes: number; activeDays: number }
+): void {
+  const id = rollupId(siteId, period, start);
+  const existing = rollups.get(id) ?? { id, siteId, period, start, activeMinutes: 0, activeDays: 0 };
+  const next: SessionRollup = {
+    ...existing,
+    activeMinutes: roundMinutes(existing.activeMinutes + totals.activeMinutes),
+    activeDays: existing.activeDays + totals.activeDays
+  };
+  if (totals.mediaMinutes > 0 || existing.mediaMinutes !== undefined) {
+    next.mediaMinutes = roundMinutes((existing.mediaMinutes ?? 0) + totals.mediaMinutes);
+  }
+  rollups.set(id, next);
+}
+
+function roundMinutes(value: number): number {
+  return Math.round(value * 100) / 100;
+}
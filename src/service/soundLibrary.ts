@@ -0,0 +1,110 @@
+import {
+  BUILTIN_SOUND_PACKS,
+  CUSTOM_SOUND_LIMITS,
+  CUSTOM_SOUND_PREFIX,
+  dataUrlByteLength,
+  isCustomSoundId,
+  SOUND_SETTINGS
+} from '../shared/audio.js';
+import { DEFAULT_SETTINGS } from '../shared/defaults.js';
+import { CustomSound, CustomSoundInfo, CustomSoundInput, Settings, SoundLibrary, SoundPack } from '../shared/types.js';
+
+const USER_PACK_PREFIX = 'pack:';
+
+export function describeSoundLibrary(sounds: CustomSound[], packs: SoundPack[]): SoundLibrary {
+  return {
+    sounds: sounds.map(({ dataUrl: _dataUrl, ...info }): CustomSoundInfo => info),
+    packs: [...BUILTIN_SOUND_PACKS, ...packs]
+  };
+}
+
+/** Appends an imported sound; null once the library is full. Input is assumed valid. */
+export function addCustomSound(sounds: CustomSound[], input: CustomSoundInput, now: number): CustomSound[] | null {
+  if (sounds.length >= CUSTOM_SOUND_LIMITS.maxSounds) {
+    return null;
+  }
+  const sound: CustomSound = {
+    id: uniqueId(`${CUSTOM_SOUND_PREFIX}${now.toString(36)}`, sounds),
+    name: input.name.trim(),
+    dataUrl: input.dataUrl,
+    durationSec: input.durationSec,
+    sizeBytes: dataUrlByteLength(input.dataUrl),
+    addedAt: now
+  };
+  return [...sounds, sound];
+}
+
+/** Drops a sound and mutes every pack slot and setting that pointed at it. */
+export function removeCustomSound(
+  sounds: CustomSound[],
+  packs: SoundPack[],
+  settings: Settings,
+  id: string
+): { sounds: CustomSound[]; packs: SoundPack[]; settings: Settings } {
+  const mute = <T extends SoundPack['sounds']>(assignment: T): T => {
+    const keys = SOUND_SETTINGS.filter((key) => assignment[key] === id);
+    return keys.length === 0 ? assignment : { ...assignment, ...Object.fromEntries(keys.map((key) => [key, null])) };
+  };
+  const nextSettings = mute(settings);
+  return {
+    sounds: sounds.filter((sound) => sound.id !== id),
+    packs: packs.map((pack) => {
+      const muted = mute(pack.sounds);
+      return muted === pack.sounds ? pack : { ...pack, sounds: muted };
+    }),
+    settings: nextSettings === settings ? settings : { ...nextSettings, audioEnabled: hasAnySound(nextSettings) }
+  };
+}
+
+/** Points events whose imported sound is gone back at the bundled default. */
+export function resetMissingSounds<T extends SoundPack['sounds']>(assignment: T, sounds: CustomSound[]): T {
+  const keys = SOUND_SETTINGS.filter((key) => {
+    const soundId = assignment[key];
+    return soundId !== null && isCustomSoundId(soundId) && !sounds.some((sound) => sound.id === soundId);
+  });
+  return keys.length === 0 ? assignment : { ...assignment, ...Object.fromEntries(keys.map((key) => [key, DEFAULT_SETTINGS[key]])) };
+}
+
+/** Saves the current assignment under `name`, replacing a user pack with the same name. */
+export function saveSoundPack(packs: SoundPack[], name: string, settings: Settings, now: number): SoundPack[] {
+  const trimmed = name.trim();
+  const existing = packs.find((pack) => pack.name === trimmed);
+  const pack: SoundPack = {
+    id: existing?.id ?? uniqueId(`${USER_PACK_PREFIX}${now.toString(36)}`, packs),
+    name: trimmed,
+    sounds: currentAssignment(settings)
+  };
+  return existing ? packs.map((item) => (item.id === existing.id ? pack : item)) : [...packs, pack];
+}
+
+/** Settings patch that switches to a pack; sound is on whenever the pack plays anything. */
+export function soundPackSettings(pack: SoundPack): Partial<Settings> {
+  return { ...pack.sounds, audioEnabled: hasAnySound(pack.sounds) };
+}
+
+/** The pack matching the current assignment, bundled packs first. */
+export function findActiveSoundPack(settings: Settings, packs: SoundPack[]): SoundPack | null {
+  const current = currentAssignment(settings);
+  return packs.find((pack) => SOUND_SETTINGS.every((key) => pack.sounds[key] === current[key])) ?? null;
+}
+
+function currentAssignment(settings: Settings): SoundPack['sounds'] {
+  return {
+    focusEntrySound: settings.focusEntrySound,
+    focusEndingSound: settings.focusEndingSound,
+    focusSuccessSound: settings.focusSuccessSound,
+    streakWarningSound: settings.streakWarningSound
+  };
+}
+
+function hasAnySound(assignment: SoundPack['sounds']): boolean {
+  return SOUND_SETTINGS.some((key) => assignment[key] !== null);
+}
+
+function uniqueId(base: string, taken: { id: string }[]): string {
+  let id = base;
+  for (let suffix = 2; taken.some((item) => item.id === id); suffix += 1) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
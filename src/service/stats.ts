@@ -0,0 +1,201 @@
+import {
+  DailyTotal,
+  QuietHoursRange,
+  Session,
+  SessionRollup,
+  Settings,
+  Site,
+  SiteBreakdown,
+  StatsSummary,
+  WeeklyTotal
+} from '../shared/types.js';
+import {
+  daysBetween,
+  HOURS_PER_DAY,
+  OTHER_PAGES_KEY,
+  resolveDailyGoalMinutes,
+  shiftDateKey,
+  startOfIsoWeek
+} from './activity.js';
+
+export const STATS_WINDOW_DAYS = 30;
+export const STATS_WEEKS = 8;
+export const HEATMAP_DAYS = 56;
+export const TOP_PAGES_PER_SITE = 5;
+export const QUIET_SUGGESTION_HOURS = 8;
+// Suggestions are searched from this hour on, so ties keep the usual 22:00 start.
+const QUIET_SUGGESTION_FIRST_HOUR = 22;
+
+export interface StatsInput {
+  sessions: Session[];
+  rollups: SessionRollup[];
+  sites: Site[];
+}
+
+type GoalLookup = (siteId: string) => number;
+
+/**
+ * Summarises the last `STATS_WINDOW_DAYS` days ending on `today`. Weekly totals
+ * also count week roll-ups, so they reach back past daily retention; the best day
+ * only knows days that are still kept as sessions.
+ */
+export function computeStats(data: StatsInput, settings: Settings, today: string): StatsSummary {
+  const from = shiftDateKey(today, 1 - STATS_WINDOW_DAYS);
+  const goalFor = createGoalLookup(data.sites, settings);
+  const days = dailyTotals(data.sessions, from, today, goalFor);
+  const windowSessions = data.sessions.filter((session) => session.date >= from && session.date <= today);
+  const heatmap = buildHeatmap(data.sessions, shiftDateKey(today, 1 - HEATMAP_DAYS), today);
+
+  return {
+    today,
+    days,
+    weeks: weeklyTotals(data.sessions, data.rollups, today, STATS_WEEKS),
+    average7: averageMinutes(days.slice(-7)),
+    average30: averageMinutes(days),
+    bestDay: findBestDay(data.sessions, goalFor),
+    sites: siteBreakdown(windowSessions, today, goalFor),
+    goalHitRate: days.filter((day) => day.goalsMet > 0).length / days.length,
+    heatmap,
+    quietHoursSuggestion: suggestQuietHours(heatmap)
+  };
+}
+
+/**
+ * Minutes per weekday (Monday first) and local hour over the sessions dated
+ * `from`..`to`. Sessions recorded before hourly buckets existed are skipped.
+ */
+export function buildHeatmap(sessions: Session[], from: string, to: string): number[][] {
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(HOURS_PER_DAY).fill(0));
+  for (const session of sessions) {
+    if (!session.hourlyMinutes || session.date < from || session.date > to) {
+      continue;
+    }
+    const row = heatmap[(new Date(`${session.date}T00:00:00Z`).getUTCDay() + 6) % 7];
+    session.hourlyMinutes.forEach((minutes, hour) => {
+      row[hour] = roundMinutes(row[hour] + minutes);
+    });
+  }
+  return heatmap;
+}
+
+/**
+ * The `QUIET_SUGGESTION_HOURS`-long stretch, wrapping past midnight, with the least
+ * activity across all weekdays. Null until there is any hourly data to go on.
+ */
+export function suggestQuietHours(heatmap: number[][]): QuietHoursRange | null {
+  const byHour = Array.from({ length: HOURS_PER_DAY }, (_, hour) => heatmap.reduce((sum, row) => sum + row[hour], 0));
+  if (byHour.every((minutes) => minutes === 0)) {
+    return null;
+  }
+  let best = { start: QUIET_SUGGESTION_FIRST_HOUR, minutes: Infinity };
+  for (let offset = 0; offset < HOURS_PER_DAY; offset += 1) {
+    const start = (QUIET_SUGGESTION_FIRST_HOUR + offset) % HOURS_PER_DAY;
+    let minutes = 0;
+    for (let index = 0; index < QUIET_SUGGESTION_HOURS; index += 1) {
+      minutes += byHour[(start + index) % HOURS_PER_DAY];
+    }
+    if (minutes < best.minutes) {
+      best = { start, minutes };
+    }
+  }
+  return {
+    start: best.start * 60,
+    end: ((best.start + QUIET_SUGGESTION_HOURS) % HOURS_PER_DAY) * 60,
+    days: []
+  };
+}
+
+/** One entry per date from `from` to `to` inclusive, zero for days without sessions. */
+function dailyTotals(sessions: Session[], from: string, to: string, goalFor: GoalLookup): DailyTotal[] {
+  const byDate = groupByDate(sessions.filter((session) => session.date >= from && session.date <= to), goalFor);
+  const days: DailyTotal[] = [];
+  for (let date = from; date <= to; date = shiftDateKey(date, 1)) {
+    days.push(byDate.get(date) ?? { date, activeMinutes: 0, goalsMet: 0 });
+  }
+  return days;
+}
+
+/** The last `count` ISO weeks, oldest first, ending with the week holding `today`. */
+function weeklyTotals(sessions: Session[], rollups: SessionRollup[], today: string, count: number): WeeklyTotal[] {
+  const first = shiftDateKey(startOfIsoWeek(today), -7 * (count - 1));
+  const totals = new Map<string, number>();
+  const add = (weekStart: string, minutes: number) => {
+    if (weekStart >= first && weekStart <= today) {
+      totals.set(weekStart, (totals.get(weekStart) ?? 0) + minutes);
+    }
+  };
+  sessions.forEach((session) => add(startOfIsoWeek(session.date), session.activeMinutes));
+  rollups.filter((rollup) => rollup.period === 'week').forEach((rollup) => add(rollup.start, rollup.activeMinutes));
+
+  return Array.from({ length: count }, (_, index) => {
+    const weekStart = shiftDateKey(first, index * 7);
+    return { weekStart, activeMinutes: roundMinutes(totals.get(weekStart) ?? 0) };
+  });
+}
+
+function siteBreakdown(sessions: Session[], today: string, goalFor: GoalLookup): SiteBreakdown[] {
+  const total = sessions.reduce((sum, session) => sum + session.activeMinutes, 0);
+  const bySite = new Map<string, { minutes: number; firstDate: string; daysMet: number; pages: Map<string, number> }>();
+  for (const session of sessions) {
+    const entry = bySite.get(session.siteId) ?? { minutes: 0, firstDate: session.date, daysMet: 0, pages: new Map() };
+    entry.minutes += session.activeMinutes;
+    entry.firstDate = session.date < entry.firstDate ? session.date : entry.firstDate;
+    entry.daysMet += session.activeMinutes >= goalFor(session.siteId) ? 1 : 0;
+    for (const [page, minutes] of Object.entries(session.pageMinutes ?? {})) {
+      if (page !== OTHER_PAGES_KEY) {
+        entry.pages.set(page, (entry.pages.get(page) ?? 0) + minutes);
+      }
+    }
+    bySite.set(session.siteId, entry);
+  }
+  return [...bySite.entries()]
+    .map(([siteId, entry]) => ({
+      siteId,
+      activeMinutes: roundMinutes(entry.minutes),
+      share: total > 0 ? entry.minutes / total : 0,
+      goalHitRate: entry.daysMet / (daysBetween(entry.firstDate, today) + 1),
+      topPages: [...entry.pages.entries()]
+        .map(([page, minutes]) => ({ page, activeMinutes: roundMinutes(minutes) }))
+        .sort((a, b) => b.activeMinutes - a.activeMinutes || a.page.localeCompare(b.page))
+        .slice(0, TOP_PAGES_PER_SITE)
+    }))
+    .sort((a, b) => b.activeMinutes - a.activeMinutes || a.siteId.localeCompare(b.siteId));
+}
+
+function findBestDay(sessions: Session[], goalFor: GoalLookup): DailyTotal | null {
+  let best: DailyTotal | null = null;
+  for (const day of groupByDate(sessions, goalFor).values()) {
+    const isBetter =
+      !best || day.activeMinutes > best.activeMinutes || (day.activeMinutes === best.activeMinutes && day.date < best.date);
+    if (day.activeMinutes > 0 && isBetter) {
+      best = day;
+    }
+  }
+  return best;
+}
+
+function groupByDate(sessions: Session[], goalFor: GoalLookup): Map<string, DailyTotal> {
+  const byDate = new Map<string, DailyTotal>();
+  for (const session of sessions) {
+    const day = byDate.get(session.date) ?? { date: session.date, activeMinutes: 0, goalsMet: 0 };
+    byDate.set(session.date, {
+      date: session.date,
+      activeMinutes: roundMinutes(day.activeMinutes + session.activeMinutes),
+      goalsMet: day.goalsMet + (session.activeMinutes >= goalFor(session.siteId) ? 1 : 0)
+    });
+  }
+  return byDate;
+}
+
+function createGoalLookup(sites: Site[], settings: Settings): GoalLookup {
+  const byId = new Map(sites.map((site) => [site.id, site]));
+  return (siteId) => resolveDailyGoalMinutes(byId.get(siteId) ?? null, settings);
+}
+
+function averageMinutes(days: DailyTotal[]): number {
+  return days.length > 0 ? roundMinutes(days.reduce((sum, day) => sum + day.activeMinutes, 0) / days.length) : 0;
+}
+
+function roundMinutes(value: number): number {
+  return Math.round(value * 100) / 100;
+}
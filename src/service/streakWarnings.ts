@@ -0,0 +1,58 @@
+import { Settings, Streak, StreakWarningLog } from '../shared/types.js';
+import { streakWarningWindow } from './activity.js';
+
+const STREAK_WARNING_ALARM_PREFIX = 'streak-warning:';
+// A run or a celebration cannot be interrupted by a warning; ask again after this long.
+export const STREAK_WARNING_RETRY_MS = 60_000;
+
+export interface StreakWarningPlan {
+  siteId: string;
+  when: number; // epoch ms the warning window opens; may already be past
+}
+
+export function streakWarningAlarmName(siteId: string): string {
+  return `${STREAK_WARNING_ALARM_PREFIX}${siteId}`;
+}
+
+/** Site a streak warning alarm belongs to, or null for any other alarm. */
+export function streakWarningSiteId(alarmName: string): string | null {
+  return alarmName.startsWith(STREAK_WARNING_ALARM_PREFIX) ? alarmName.slice(STREAK_WARNING_ALARM_PREFIX.length) : null;
+}
+
+/**
+ * One entry per streak that still needs a warning: not yet warned about its
+ * current day and not already broken at `now`. Nothing is planned while
+ * notifications are off.
+ */
+export function planStreakWarnings(
+  streaks: Streak[],
+  settings: Settings,
+  log: StreakWarningLog,
+  now: number
+): StreakWarningPlan[] {
+  if (!settings.notifications) {
+    return [];
+  }
+  return streaks
+    .filter((streak) => streak.length > 0 && log[streak.siteId] !== streak.lastDate)
+    .map((streak) => ({ siteId: streak.siteId, window: streakWarningWindow(streak, settings.tz) }))
+    .filter(({ window }) => window.to > now)
+    .map(({ siteId, window }) => ({ siteId, when: window.from }));
+}
+
+/**
+ * When to ask again after a run or a celebration kept the warning from showing,
+ * or null once a retry would land after the streak has already broken.
+ */
+export function nextStreakWarningRetry(streak: Streak, tz: string, now: number): number | null {
+  const retryAt = now + STREAK_WARNING_RETRY_MS;
+  return retryAt < streakWarningWindow(streak, tz).to ? retryAt : null;
+}
+
+/** Marks the site's current streak day as warned and drops entries for days that have moved on. */
+export function recordStreakWarning(log: StreakWarningLog, streaks: Streak[], siteId: string): StreakWarningLog {
+  const lastDates = new Map(streaks.map((streak) => [streak.siteId, streak.lastDate]));
+  const kept = Object.entries(log).filter(([site, date]) => site !== siteId && lastDates.get(site) === date);
+  const current = lastDates.get(siteId);
+  return Object.fromEntries(current === undefined ? kept : [...kept, [siteId, current]]);
+}
@@ -0,0 +1,417 @@
+import {
+  CUSTOM_SOUND_LIMITS,
+  CUSTOM_SOUND_PREFIX,
+  customSoundProblems,
+  dataUrlByteLength,
+  isCustomSoundId,
+  SOUND_SETTINGS
+} from '../shared/audio.js';
+import { DEFAULT_SETTINGS } from '../shared/defaults.js';
+import { applyMigrations, CURRENT_SCHEMA_VERSION, StoredData } from '../shared/migrations.js';
+import { findSession, upsertSession, upsertSite, upsertStreak } from '../shared/storage.js';
+import {
+  CustomSound,
+  EXPORT_FORMAT,
+  ExportDocument,
+  ImportMode,
+  Session,
+  SessionRollup,
+  Settings,
+  Site,
+  SoundPack,
+  SoundRecords,
+  Streak,
+  UserData
+} from '../shared/types.js';
+import { isQuietHoursRange, isRecord, settingsFieldProblem } from '../shared/validation.js';
+import { addSessionMinutes, daysBetween, ensureStreakProgress, HOURS_PER_DAY, shiftDateKey } from './activity.js';
+import { mergeRollups, rollupId } from './retention.js';
+import { resetMissingSounds } from './soundLibrary.js';
+
+export { EXPORT_FORMAT } from '../shared/types.js';
+export type { ExportDocument, ImportMode, UserData } from '../shared/types.js';
+
+export interface ImportValidation {
+  ok: boolean;
+  /** Fatal problems: the document cannot be imported at all. */
+  errors: string[];
+  /** Records that were skipped or fields that were ignored. */
+  warnings: string[];
+  document: ExportDocument | null;
+}
+
+/** Imported sounds travel with the export so the `custom:` ids in settings and packs still resolve. */
+export function createExportDocument(data: UserData & SoundRecords, now: Date = new Date()): ExportDocument {
+  return {
+    format: EXPORT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    data: {
+      settings: data.settings,
+      sessions: data.sessions,
+      rollups: data.rollups,
+      streaks: data.streaks,
+      sites: data.sites,
+      customSounds: data.customSounds,
+      soundPacks: data.soundPacks
+    }
+  };
+}
+
+export function validateExportDocument(input: unknown): ImportValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fail = (message: string): ImportValidation => ({ ok: false, errors: [...errors, message], warnings, document: null });
+
+  if (!isRecord(input)) {
+    return fail('Файл не похож на экспорт Bychok: ожидается JSON-объект');
+  }
+  if (input.format !== EXPORT_FORMAT) {
+    return fail(`Неизвестный формат: ${String(input.format)}`);
+  }
+  const schemaVersion = input.schemaVersion;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return fail('schemaVersion должен быть целым неотрицательным числом');
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return fail(`Экспорт сделан более новой версией (схема ${schemaVersion}), обновите расширение`);
+  }
+  if (!isRecord(input.data)) {
+    return fail('Отсутствует блок data');
+  }
+
+  // Older exports go through the same pipeline as older installs.
+  const migrated: StoredData = applyMigrations({ ...input.data }, schemaVersion).data;
+
+  const settings = validateSettings(migrated.settings, warnings);
+  const sessions = collect(migrated.sessions, 'sessions', validateSession, warnings);
+  const rollups = collect(migrated.rollups, 'rollups', validateRollup, warnings);
+  const streaks = collect(migrated.streaks, 'streaks', validateStreak, warnings);
+  const sites = collect(migrated.sites, 'sites', validateSite, warnings);
+  const customSounds = collect(migrated.customSounds, 'customSounds', validateCustomSound, warnings);
+  if (customSounds.length > CUSTOM_SOUND_LIMITS.maxSounds) {
+    warnings.push(`customSounds: больше ${CUSTOM_SOUND_LIMITS.maxSounds} звуков, лишние пропущены`);
+    customSounds.length = CUSTOM_SOUND_LIMITS.maxSounds;
+  }
+  const soundPacks = collect(migrated.soundPacks, 'soundPacks', validateSoundPack, warnings);
+
+  return {
+    ok: true,
+    errors,
+    warnings,
+    document: {
+      format: EXPORT_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: typeof input.exportedAt === 'string' ? input.exportedAt : new Date(0).toISOString(),
+      data: { settings, sessions, rollups, streaks, sites, customSounds, soundPacks }
+    }
+  };
+}
+
+/**
+ * Combines imported data with what is already stored. `replace` takes the import
+ * as-is; `merge` keeps current settings and site configs, sums minutes of sessions
+ * and roll-ups sharing an id and merges the streak records of each site. Summed
+ * sessions then go through `ensureStreakProgress` in date order.
+ */
+export function importUserData(current: UserData, incoming: UserData, mode: ImportMode): UserData {
+  if (mode === 'replace') {
+    return {
+      settings: incoming.settings,
+      sessions: incoming.sessions,
+      rollups: incoming.rollups,
+      streaks: incoming.streaks,
+      sites: incoming.sites
+    };
+  }
+
+  let sessions = current.sessions;
+  const summed: Session[] = [];
+  for (const session of incoming.sessions) {
+    const existing = findSession(sessions, session.id);
+    const merged = existing ? addSessionMinutes(existing, session.activeMinutes, session.mediaMinutes ?? 0, session) : session;
+    if (existing) {
+      summed.push(merged);
+    }
+    sessions = upsertSession(sessions, merged);
+  }
+
+  let sites = current.sites;
+  for (const site of incoming.sites) {
+    if (!sites.some((item) => item.id === site.id)) {
+      sites = upsertSite(sites, site);
+    }
+  }
+
+  let streaks = current.streaks;
+  for (const streak of incoming.streaks) {
+    const existing = streaks.find((item) => item.siteId === streak.siteId);
+    streaks = upsertStreak(streaks, existing ? mergeStreaks(existing, streak) : streak);
+  }
+  // A day may only reach its goal once both sides' minutes are added up.
+  summed.sort((a, b) => a.date.localeCompare(b.date) || a.siteId.localeCompare(b.siteId));
+  for (const session of summed) {
+    const site = sites.find((item) => item.id === session.siteId) ?? null;
+    streaks = ensureStreakProgress(session, streaks, current.settings, site);
+  }
+
+  const rollups = mergeRollups(current.rollups, incoming.rollups);
+  return { settings: current.settings, sessions, rollups, streaks, sites };
+}
+
+/**
+ * Combines imported sounds and packs the same way: `replace` takes the import,
+ * `merge` adds the ones not stored yet while the library has room. Packs that
+ * point at a sound which did not make it fall back to the bundled defaults.
+ */
+export function importSoundRecords(current: SoundRecords, incoming: SoundRecords, mode: ImportMode): SoundRecords {
+  const pick = <T extends { id: string }>(stored: T[], imported: T[]) =>
+    mode === 'replace' ? imported : [...stored, ...imported.filter((item) => !stored.some((known) => known.id === item.id))];
+  const customSounds = pick(current.customSounds, incoming.customSounds).slice(0, CUSTOM_SOUND_LIMITS.maxSounds);
+  const soundPacks = pick(current.soundPacks, incoming.soundPacks).map((pack) => {
+    const sounds = resetMissingSounds(pack.sounds, customSounds);
+    return sounds === pack.sounds ? pack : { ...pack, sounds };
+  });
+  return { customSounds, soundPacks };
+}
+
+/**
+ * Joins two records of one site's streak. Runs that overlap or touch become one
+ * run; otherwise the more recent run wins. Sessions may already be pruned by
+ * retention, so the records are trusted over the history. Freeze state follows
+ * the run that ends last, with bridged days from both kept.
+ */
+export function mergeStreaks(current: Streak, incoming: Streak): Streak {
+  const incomingIsLater =
+    incoming.lastDate > current.lastDate || (incoming.lastDate === current.lastDate && incoming.length > current.length);
+  const [earlier, later] = incomingIsLater ? [current, incoming] : [incoming, current];
+  const laterStart = shiftDateKey(later.lastDate, 1 - later.length);
+  if (earlier.length === 0 || later.length === 0 || laterStart > shiftDateKey(earlier.lastDate, 1)) {
+    return later;
+  }
+  const earlierStart = shiftDateKey(earlier.lastDate, 1 - earlier.length);
+  const start = earlierStart < laterStart ? earlierStart : laterStart;
+  const merged: Streak = { ...later, length: daysBetween(start, later.lastDate) + 1 };
+  const frozenDates = [...new Set([...(earlier.frozenDates ?? []), ...(later.frozenDates ?? [])])].filter(
+    (date) => date >= start
+  );
+  if (frozenDates.length > 0) {
+    merged.frozenDates = frozenDates.sort();
+  }
+  return merged;
+}
+
+function collect<T>(
+  value: unknown,
+  label: string,
+  validate: (item: unknown) => T | string,
+  warnings: string[]
+): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    warnings.push(`${label}: ожидается массив, блок пропущен`);
+    return [];
+  }
+  const result: T[] = [];
+  value.forEach((item, index) => {
+    const checked = validate(item);
+    if (typeof checked === 'string') {
+      warnings.push(`${label}[${index}]: ${checked}, запись пропущена`);
+    } else {
+      result.push(checked);
+    }
+  });
+  return result;
+}
+
+function validateSettings(value: unknown, warnings: string[]): Settings {
+  if (value === undefined) {
+    return { ...DEFAULT_SETTINGS };
+  }
+  if (!isRecord(value)) {
+    warnings.push('settings: ожидается объект, используются значения по умолчанию');
+    return { ...DEFAULT_SETTINGS };
+  }
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (key === 'quietHours' && Array.isArray(fieldValue)) {
+      // keep the valid ranges rather than dropping the whole schedule
+      const valid = fieldValue.filter(isQuietHoursRange);
+      if (valid.length !== fieldValue.length) {
+        warnings.push('settings.quietHours: некорректные интервалы пропущены');
+      }
+      settings.quietHours = valid;
+      continue;
+    }
+    const problem = settingsFieldProblem(key, fieldValue);
+    if (problem === null) {
+      settings[key] = fieldValue;
+    } else if (key in DEFAULT_SETTINGS) {
+      warnings.push(`settings.${key}: ${problem}, оставлено значение по умолчанию`);
+    } else {
+      warnings.push(`settings.${key}: неизвестное поле проигнорировано`);
+    }
+  }
+  return settings as unknown as Settings;
+}
+
+function validateSession(value: unknown): Session | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { id, siteId, date, activeMinutes, mediaMinutes, hourlyMinutes, pageMinutes } = value;
+  if (typeof id !== 'string' || typeof siteId !== 'string') {
+    return 'нет id или siteId';
+  }
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return 'date должен быть в формате YYYY-MM-DD';
+  }
+  if (typeof activeMinutes !== 'number' || !Number.isFinite(activeMinutes) || activeMinutes < 0) {
+    return 'activeMinutes должен быть неотрицательным числом';
+  }
+  const session: Session = { id, siteId, date, activeMinutes };
+  if (typeof mediaMinutes === 'number' && Number.isFinite(mediaMinutes) && mediaMinutes > 0) {
+    session.mediaMinutes = Math.min(mediaMinutes, activeMinutes);
+  }
+  // Buckets are optional detail: a malformed set is dropped rather than failing the session.
+  if (isHourlyMinutes(hourlyMinutes)) {
+    session.hourlyMinutes = hourlyMinutes;
+  }
+  if (isPageMinutes(pageMinutes)) {
+    session.pageMinutes = pageMinutes;
+  }
+  return session;
+}
+
+function isPageMinutes(value: unknown): value is Record<string, number> {
+  return (
+    isRecord(value) &&
+    Object.values(value).every((minutes) => typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0)
+  );
+}
+
+function isHourlyMinutes(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === HOURS_PER_DAY &&
+    value.every((minutes) => typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0)
+  );
+}
+
+function validateRollup(value: unknown): SessionRollup | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { siteId, period, start, activeMinutes, mediaMinutes, activeDays } = value;
+  if (typeof siteId !== 'string') {
+    return 'нет siteId';
+  }
+  if (period !== 'week' && period !== 'month') {
+    return 'period должен быть week или month';
+  }
+  if (typeof start !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(start)) {
+    return 'start должен быть в формате YYYY-MM-DD';
+  }
+  if (typeof activeMinutes !== 'number' || !Number.isFinite(activeMinutes) || activeMinutes < 0) {
+    return 'activeMinutes должен быть неотрицательным числом';
+  }
+  const rollup: SessionRollup = {
+    id: rollupId(siteId, period, start),
+    siteId,
+    period,
+    start,
+    activeMinutes,
+    activeDays: Number.isInteger(activeDays) && (activeDays as number) > 0 ? (activeDays as number) : 0
+  };
+  if (typeof mediaMinutes === 'number' && Number.isFinite(mediaMinutes) && mediaMinutes > 0) {
+    rollup.mediaMinutes = Math.min(mediaMinutes, activeMinutes);
+  }
+  return rollup;
+}
+
+function validateStreak(value: unknown): Streak | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { siteId, length, lastDate, frozenDaysLeft, freezeWeek, frozenDates } = value;
+  if (typeof siteId !== 'string' || typeof lastDate !== 'string') {
+    return 'нет siteId или lastDate';
+  }
+  if (typeof length !== 'number' || !Number.isInteger(length) || length < 0) {
+    return 'length должен быть целым неотрицательным числом';
+  }
+  const streak: Streak = { siteId, length, lastDate };
+  if (typeof frozenDaysLeft === 'number') {
+    streak.frozenDaysLeft = frozenDaysLeft;
+  }
+  if (typeof freezeWeek === 'string') {
+    streak.freezeWeek = freezeWeek;
+  }
+  if (Array.isArray(frozenDates) && frozenDates.every((date) => typeof date === 'string')) {
+    streak.frozenDates = frozenDates;
+  }
+  return streak;
+}
+
+function validateCustomSound(value: unknown): CustomSound | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { id, name, dataUrl, durationSec, addedAt } = value;
+  if (typeof id !== 'string' || !isCustomSoundId(id)) {
+    return `id должен начинаться с ${CUSTOM_SOUND_PREFIX}`;
+  }
+  const problems = customSoundProblems({ name, dataUrl, durationSec });
+  if (problems.length > 0) {
+    return problems.join('; ');
+  }
+  return {
+    id,
+    name: (name as string).trim(),
+    dataUrl: dataUrl as string,
+    durationSec: durationSec as number,
+    sizeBytes: dataUrlByteLength(dataUrl as string),
+    addedAt: typeof addedAt === 'number' && Number.isFinite(addedAt) ? addedAt : 0
+  };
+}
+
+function validateSoundPack(value: unknown): SoundPack | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { id, name, sounds } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || !isRecord(sounds)) {
+    return 'нет id, name или sounds';
+  }
+  if (!SOUND_SETTINGS.every((key) => sounds[key] === null || typeof sounds[key] === 'string')) {
+    return 'sounds: ожидается звук или null для каждого события';
+  }
+  const assignment = Object.fromEntries(SOUND_SETTINGS.map((key) => [key, sounds[key]]));
+  return { id, name, sounds: assignment as SoundPack['sounds'] };
+}
+
+function validateSite(value: unknown): Site | string {
+  if (!isRecord(value)) {
+    return 'ожидается объект';
+  }
+  const { id, pattern, pathPrefix, dailyGoalMin, overlayEnabled, mediaTracking } = value;
+  if (typeof id !== 'string' || typeof pattern !== 'string') {
+    return 'нет id или pattern';
+  }
+  if (pathPrefix !== null && pathPrefix !== undefined && typeof pathPrefix !== 'string') {
+    return 'pathPrefix должен быть строкой';
+  }
+  if (typeof dailyGoalMin !== 'number' || dailyGoalMin < 1) {
+    return 'dailyGoalMin должен быть числом от 1';
+  }
+  return {
+    id,
+    pattern,
+    pathPrefix: pathPrefix ?? null,
+    dailyGoalMin,
+    overlayEnabled: overlayEnabled !== false,
+    mediaTracking: mediaTracking === true
+  };
+}
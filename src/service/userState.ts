@@ -0,0 +1,258 @@
+import { SoundSetting } from '../shared/audio.js';
+import { MascotAnimationId } from '../shared/mascot.js';
+import { FocusRun, FocusRunRecord, NotificationRequest, Streak, UserState } from '../shared/types.js';
+
+export type { UserState } from '../shared/types.js';
+
+export type UserStateName = UserState['name'];
+
+export type UserEvent =
+  | { type: 'startIntent'; siteId: string }
+  | { type: 'dismiss' }
+  | { type: 'startRun'; run: FocusRun }
+  | { type: 'runUpdated'; run: FocusRun }
+  | { type: 'runEnding' }
+  | { type: 'goalReached'; record: FocusRunRecord; streakGrew: boolean }
+  | { type: 'cancel' }
+  | { type: 'celebrate' }
+  | { type: 'streakExpireSoon'; siteId: string; goalMinutes: number }
+  | { type: 'streakSecured'; siteId: string }
+  | { type: 'userAcknowledged' }
+  | { type: 'useFreeze'; streak: Streak; bridgedDays: number; date: string }
+  | { type: 'snooze'; siteId: string }
+  | { type: 'nextDay' };
+
+export type UserEventType = UserEvent['type'];
+
+export type UserStateEffect =
+  | ({ kind: 'notification' } & NotificationRequest)
+  | { kind: 'sound'; sound: SoundSetting; siteId: string }
+  | { kind: 'mascot'; animation: MascotAnimationId; caption: string; siteId: string };
+
+export interface UserStateTransition {
+  state: UserState;
+  effects: UserStateEffect[];
+  changed: boolean;
+}
+
+export interface UserStateView {
+  animation: MascotAnimationId;
+  caption: string;
+}
+
+export const CELEBRATION_MS = 60_000;
+export const PROMPT_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Events each state accepts, after the diagram in section 9 of the overview. The
+ * worker owns the current state; overlay and popup only render it.
+ *
+ * Differences from the diagram: pausing keeps the run in Focus (only cancel leaves
+ * it), a start intent is also accepted from Warning/Success/Frozen, a streak
+ * warning for another site interrupts Frozen, and Warning returns to Idle once
+ * the streak is secured or the reminder is snoozed. A freeze spent during Focus or
+ * Success still announces the saved streak, but leaves the state as it is.
+ */
+const ALLOWED_EVENTS: Record<UserStateName, UserEventType[]> = {
+  idle: ['startIntent', 'streakExpireSoon', 'useFreeze'],
+  prompt: ['startRun', 'dismiss', 'useFreeze'],
+  focus: ['runUpdated', 'runEnding', 'goalReached', 'cancel'],
+  success: ['celebrate', 'startIntent'],
+  warning: ['userAcknowledged', 'startIntent', 'streakExpireSoon', 'streakSecured', 'snooze', 'useFreeze'],
+  frozen: ['nextDay', 'startIntent', 'streakExpireSoon', 'useFreeze']
+};
+
+export function createIdleState(now: number): UserState {
+  return { name: 'idle', since: now };
+}
+
+export function canTransition(state: UserState, event: UserEvent): boolean {
+  return ALLOWED_EVENTS[state.name].includes(event.type);
+}
+
+/** Applies one event. Events the current state does not accept leave it untouched. */
+export function transitionUserState(state: UserState, event: UserEvent, now: number): UserStateTransition {
+  if (!canTransition(state, event)) {
+    const effects = event.type === 'useFreeze' ? streakSavedEffects(event.streak, event.bridgedDays) : [];
+    return { state, effects, changed: false };
+  }
+  const next = nextState(state, event, now);
+  if (next === state) {
+    return { state, effects: [], changed: false };
+  }
+  return { state: next, effects: effectsFor(state, next, event), changed: true };
+}
+
+/** Time-driven transitions: celebrations end, prompts expire, a frozen day passes. */
+export function settleUserState(state: UserState, now: number, today: string): UserStateTransition {
+  if (state.name === 'success' && now - state.since >= CELEBRATION_MS) {
+    return transitionUserState(state, { type: 'celebrate' }, now);
+  }
+  if (state.name === 'prompt' && now - state.since >= PROMPT_TIMEOUT_MS) {
+    return transitionUserState(state, { type: 'dismiss' }, now);
+  }
+  if (state.name === 'frozen' && state.date !== today) {
+    return transitionUserState(state, { type: 'nextDay' }, now);
+  }
+  return { state, effects: [], changed: false };
+}
+
+export function streakWarningNotificationId(siteId: string): string {
+  return `streak-${siteId}`;
+}
+
+export function activeFocusRun(state: UserState): FocusRun | null {
+  return state.name === 'focus' ? state.run : null;
+}
+
+/** Mascot animation and copy for the current state; quiet hours put an idle mascot to sleep. */
+export function describeUserState(state: UserState, withinQuietHours = false): UserStateView {
+  switch (state.name) {
+    case 'idle':
+      return withinQuietHours
+        ? { animation: 'sleep', caption: 'Тихие часы. Бычок дремлет 💤' }
+        : { animation: 'idle-chill', caption: 'Погнали на 5 минут? 🛹' };
+    case 'prompt':
+      return { animation: 'nudge-soft', caption: 'Погнали на 5 минут? 🛹' };
+    case 'focus':
+      return state.run.pausedAt !== null
+        ? { animation: 'idle-chill', caption: 'Пауза. Таймер ждёт тебя' }
+        : { animation: 'focus-on', caption: 'Держу темп!' };
+    case 'success':
+      return { animation: 'success', caption: state.streakGrew ? 'Жарко! Серия +1 🔥' : 'Жарко! Заезд закрыт 🔥' };
+    case 'warning':
+      return { animation: 'warning-expire', caption: `Серия на волоске — спасём за ${state.goalMinutes} минут?` };
+    case 'frozen':
+      return { animation: 'streak-saved', caption: 'День на паузу. Серия цела ❄️' };
+  }
+}
+
+function nextState(state: UserState, event: UserEvent, now: number): UserState {
+  switch (event.type) {
+    case 'startIntent':
+      return { name: 'prompt', since: now, siteId: event.siteId };
+    case 'userAcknowledged':
+      return state.name === 'warning' ? { name: 'prompt', since: now, siteId: state.siteId } : state;
+    case 'startRun':
+      return { name: 'focus', since: now, run: event.run };
+    case 'runUpdated':
+      return state.name === 'focus' ? { ...state, run: event.run } : state;
+    case 'runEnding':
+      return state.name === 'focus' && !state.run.endingNotified
+        ? { ...state, run: { ...state.run, endingNotified: true } }
+        : state;
+    case 'goalReached':
+      return { name: 'success', since: now, record: event.record, streakGrew: event.streakGrew };
+    case 'streakExpireSoon':
+      // Re-warning about the same site would only repeat the notification.
+      return state.name === 'warning' && state.siteId === event.siteId
+        ? state
+        : { name: 'warning', since: now, siteId: event.siteId, goalMinutes: event.goalMinutes };
+    case 'streakSecured':
+    case 'snooze':
+      return state.name === 'warning' && state.siteId === event.siteId ? createIdleState(now) : state;
+    case 'useFreeze':
+      return { name: 'frozen', since: now, streak: event.streak, bridgedDays: event.bridgedDays, date: event.date };
+    case 'dismiss':
+    case 'cancel':
+    case 'celebrate':
+    case 'nextDay':
+      return createIdleState(now);
+  }
+}
+
+function effectsFor(previous: UserState, next: UserState, event: UserEvent): UserStateEffect[] {
+  if (event.type === 'runEnding' && next.name === 'focus') {
+    return [
+      {
+        kind: 'notification',
+        id: 'focus-ending',
+        title: 'Финиш близко',
+        message: 'Осталась минута до конца серии. Добавим огня?',
+        siteId: next.run.siteId,
+        actions: ['extend-focus'],
+        priority: 'low'
+      },
+      { kind: 'sound', sound: 'focusEndingSound', siteId: next.run.siteId }
+    ];
+  }
+  // Warning and Frozen carry per-site effects, so a second site re-enters them.
+  if (next.name === previous.name && next.name !== 'warning' && next.name !== 'frozen') {
+    return [];
+  }
+  switch (next.name) {
+    case 'focus':
+      return [
+        {
+          kind: 'notification',
+          id: 'focus-start',
+          title: 'Фокус включён',
+          message: `Держим темп ${next.run.durationMinutes} минут на ${next.run.siteId}`,
+          siteId: next.run.siteId,
+          actions: [],
+          priority: 'low'
+        },
+        { kind: 'sound', sound: 'focusEntrySound', siteId: next.run.siteId }
+      ];
+    case 'success': {
+      const minutes = Math.round(next.record.focusedMs / 60_000);
+      return [
+        {
+          kind: 'mascot',
+          animation: 'success',
+          caption: `Жарко! ${minutes} мин фокуса на ${next.record.siteId} 🔥`,
+          siteId: next.record.siteId
+        },
+        {
+          kind: 'notification',
+          id: 'focus-complete',
+          title: 'Заезд завершён 🔥',
+          message: `Жарко! ${minutes} минут фокуса на ${next.record.siteId}.${next.streakGrew ? ' Серия +1' : ''}`,
+          siteId: next.record.siteId,
+          actions: ['start-focus'],
+          priority: 'low'
+        },
+        { kind: 'sound', sound: 'focusSuccessSound', siteId: next.record.siteId }
+      ];
+    }
+    case 'warning':
+      return [
+        {
+          kind: 'mascot',
+          animation: 'warning-expire',
+          caption: `Серия на волоске — спасём за ${next.goalMinutes} минут?`,
+          siteId: next.siteId
+        },
+        {
+          kind: 'notification',
+          id: streakWarningNotificationId(next.siteId),
+          title: 'Серия на волоске',
+          message: `${next.siteId}: добавьте ${next.goalMinutes} минут, чтобы спасти день`,
+          siteId: next.siteId,
+          actions: ['start-focus', 'snooze'],
+          priority: 'high'
+        },
+        { kind: 'sound', sound: 'streakWarningSound', siteId: next.siteId }
+      ];
+    case 'frozen':
+      return streakSavedEffects(next.streak, next.bridgedDays);
+    default:
+      return [];
+  }
+}
+
+function streakSavedEffects(streak: Streak, bridgedDays: number): UserStateEffect[] {
+  const caption = `Стрик спасён! Заморозка закрыла ${bridgedDays} дн. на ${streak.siteId}`;
+  return [
+    { kind: 'mascot', animation: 'streak-saved', caption, siteId: streak.siteId },
+    {
+      kind: 'notification',
+      id: `streak-saved-${streak.siteId}`,
+      title: 'Стрик спасён! ❄️',
+      message: `${caption}. Серия: ${streak.length}, заморозок осталось: ${streak.frozenDaysLeft ?? 0}`,
+      siteId: streak.siteId,
+      actions: [],
+      priority: 'normal'
+    }
+  ];
+}
@@ -1,204 +1,904 @@
-import { isPlaySoundMessage, PlaySoundMessage, resolveSoundAsset } from './shared/audio.js';
-import { loadSessions, loadSettings, loadStreaks, saveSessions, saveSettings, saveStreaks } from './shared/storage.js';
-import { ActivitySlot, FocusModeState, Session, Settings, Streak } from './shared/types.js';
-import { AggregatedData, evaluateQuietHours, mergeActivitySlot, shouldWarnStreakExpiry } from './service/activity.js';
-
-const DEFAULT_SETTINGS: Settings = {
-  tz: '+00:00',
-  quietHours: [[22, 7]],
-  notifications: true,
-  audioEnabled: true,
-  focusEntrySound: 'chime-soft',
-  sessionLengthMinutes: 5,
-  focusPresets: [5, 15, 25, 45],
-  savedSites: [],
-  overlayTransparency: 0.8
-};
+import {
+  CUSTOM_SOUND_LIMITS,
+  isCustomSoundId,
+  isPlaySoundMessage,
+  PlaySoundMessage,
+  PlaySoundResponse,
+  resolveSoundAsset
+} from './shared/audio.js';
+import { resolveAnimationAsset, ShowMascotMessage } from './shared/mascot.js';
+import { createChromeBackend, moveRecords } from './shared/backend.js';
+import { createIndexedDbBackend } from './shared/indexedDbBackend.js';
+import {
+  loadNotificationContext,
+  loadUserState,
+  migrateStorage,
+  saveNotificationContext,
+  saveUserState,
+  upsertSite,
+  upsertStreak
+} from './shared/storage.js';
+import { resolveSiteForUrl } from './shared/sites.js';
+import {
+  ActivitySlot,
+  ExportDocument,
+  FocusModeState,
+  FocusRun,
+  FocusRunOutcome,
+  FocusRunRecord,
+  NotificationRequest,
+  QueuedNotification,
+  SoundLibrary,
+  SoundRecords,
+  StorageUsage,
+  Streak,
+  UserState
+} from './shared/types.js';
+import {
+  parseRuntimeRequest,
+  RequestPayload,
+  RequestType,
+  RpcError,
+  rpcError,
+  RpcResponse,
+  RuntimeRequest,
+  UserStateChangedMessage
+} from './shared/messages.js';
+import {
+  AggregatedData,
+  applyManualFreeze,
+  evaluateQuietHours,
+  forgetPageMinutes,
+  isSlotKindAllowed,
+  mergeActivitySlot,
+  rebaseForTimeZoneChange,
+  reconcileActivitySlot,
+  resolveDailyGoalMinutes,
+  shouldWarnStreakExpiry,
+  SlotLedger,
+  toDateKey
+} from './service/activity.js';
+import { creditedSlotSeconds } from './service/activityQuality.js';
+import { appendIdleTransition, applySystemIdle, IdleTransition, SystemIdleState } from './service/idle.js';
+import {
+  appendFocusHistory,
+  createFocusRun,
+  extendFocusRun,
+  finishFocusRun,
+  FOCUS_ALARMS,
+  FOCUS_EXTEND_MINUTES,
+  isFocusAlarm,
+  isFocusRunOver,
+  pauseFocusRun,
+  planFocusAlarms,
+  resumeFocusRun
+} from './service/focus.js';
+import {
+  activeFocusRun,
+  createIdleState,
+  settleUserState,
+  streakWarningNotificationId,
+  transitionUserState,
+  UserEvent,
+  UserStateEffect,
+  UserStateTransition
+} from './service/userState.js';
+import {
+  collapseQueue,
+  enqueueNotification,
+  NOTIFICATION_FLUSH_ALARM,
+  shouldHoldNotification
+} from './service/notificationQueue.js';
+import {
+  notificationButtonTitle,
+  QUICK_START_MINUTES,
+  siteLandingUrl,
+  snoozeAlarmName,
+  snoozedSiteId
+} from './service/notifications.js';
+import { createRepository } from './service/repository.js';
+import { applyRetention } from './service/retention.js';
+import {
+  addCustomSound,
+  describeSoundLibrary,
+  removeCustomSound,
+  resetMissingSounds,
+  saveSoundPack
+} from './service/soundLibrary.js';
+import { computeStats } from './service/stats.js';
+import {
+  nextStreakWarningRetry,
+  planStreakWarnings,
+  recordStreakWarning,
+  streakWarningAlarmName,
+  streakWarningSiteId
+} from './service/streakWarnings.js';
+import {
+  createExportDocument,
+  ImportMode,
+  importSoundRecords,
+  importUserData,
+  validateExportDocument
+} from './service/transfer.js';
 
-let cachedSettings: Settings | null = null;
-let cachedSessions: Session[] = [];
-let cachedStreaks: Streak[] = [];
-let focusMode: FocusModeState | null = null;
-let focusEndingNotified = false;
-async function ensureCaches(): Promise<void> {
-  if (!cachedSettings) {
-    cachedSettings = await loadSettings(DEFAULT_SETTINGS);
+const OFFSCREEN_AUDIO_URL = 'dist/offscreen/audio.html';
+
+// IndexedDB stores each session as its own record, so a flush only touches the changed ones; chrome.storage.local is the fallback.
+const usesIndexedDb = typeof indexedDB !== 'undefined';
+const backend = usesIndexedDb ? createIndexedDbBackend() : createChromeBackend();
+const repository = createRepository(backend);
+// Mirrors chrome.storage.session; null until restored after a worker start.
+let userState: UserState | null = null;
+// Kept in memory only: the worker is not suspended while tabs keep sending slots.
+let slotLedger: SlotLedger = {};
+// Recent chrome.idle transitions; an `active` event wakes the worker, so losing older ones is harmless.
+let idleLog: IdleTransition[] = [];
+let migrationTask: Promise<void> | null = null;
+// Shared by concurrent sounds so only one offscreen document is ever requested.
+let offscreenCreation: Promise<void> | null = null;
+// Tail of the sound library edits; see editSoundRecords.
+let soundEdits: Promise<unknown> = Promise.resolve();
+
+/**
+ * Rejects while the stored data cannot be migrated, so the repository is never
+ * loaded from (and later flushed over) an outdated shape. The next call retries.
+ */
+function ensureMigrated(): Promise<void> {
+  if (!migrationTask) {
+    migrationTask = moveLegacyRecords()
+      .then(() => migrateStorage(backend))
+      .then((outcome) => {
+        if (outcome.applied.length > 0) {
+          console.info('Storage migrated', outcome.fromVersion, '→', outcome.toVersion);
+        }
+      })
+      .catch((error) => {
+        migrationTask = null;
+        console.error('Storage migration failed', error);
+        throw error;
+      });
   }
-  if (cachedSessions.length === 0) {
-    cachedSessions = await loadSessions();
+  return migrationTask;
+}
+
+// Releases before IndexedDB kept every record in chrome.storage.local; carry them over once.
+async function moveLegacyRecords(): Promise<void> {
+  if (!usesIndexedDb) {
+    return;
   }
-  if (cachedStreaks.length === 0) {
-    cachedStreaks = await loadStreaks();
+  const moved = await moveRecords(createChromeBackend(), backend);
+  if (moved.length > 0) {
+    console.info('Storage moved to IndexedDB', moved);
   }
 }
 
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (isPlaySoundMessage(message)) {
-    return false;
+async function ensureCaches(): Promise<void> {
+  await ensureMigrated();
+  if (!repository.isLoaded()) {
+    await repository.load();
+    chrome.idle.setDetectionInterval(repository.get('settings').idleThresholdSeconds);
+    enforceRetention();
+  }
+  if (!userState) {
+    await restoreUserState();
+    // Alarms outlive the worker; this also catches warnings that fell due while it was down.
+    await scheduleStreakWarnings();
+    await flushNotificationQueue();
   }
+}
 
-  void ensureCaches().then(async () => {
-    switch (message?.type) {
-      case 'activity-slot': {
-        await handleActivitySlot(message.payload as ActivitySlot);
-        sendResponse({ ok: true });
-        break;
-      }
-      case 'focus-mode:start': {
-        await startFocusMode(message.payload as FocusModeState);
-        sendResponse({ ok: true });
-        break;
-      }
-      case 'focus-mode:stop': {
-        await stopFocusMode();
-        sendResponse({ ok: true });
-        break;
+async function restoreUserState(): Promise<void> {
+  userState = (await loadUserState()) ?? createIdleState(Date.now());
+  const run = activeFocusRun(userState);
+  // Alarms usually outlive the worker, but re-arm them if the browser dropped them.
+  if (run && !(await chrome.alarms.get(FOCUS_ALARMS.end))) {
+    await scheduleFocusAlarms(run);
+  }
+}
+
+type RequestHandlers = {
+  [K in RequestType]: (payload: RequestPayload<K>, sender: chrome.runtime.MessageSender) => Promise<RpcResponse<K>>;
+};
+
+const REQUEST_HANDLERS: RequestHandlers = {
+  'activity-slot': async (slot, sender) => ({ ok: true, counted: await handleActivitySlot(slot, sender) }),
+  'user-state:read': async () => {
+    await settleCurrentState();
+    return { ok: true, state: userState! };
+  },
+  'focus-mode:start': async ({ siteId, durationMinutes }) => {
+    // The run starts when the worker sees the request, whatever the client's clock says.
+    await startFocusMode({ siteId, durationMinutes, startedAt: Date.now() });
+    return { ok: true, state: userState! };
+  },
+  'focus-mode:pause': async () => updateFocusRun((run) => pauseFocusRun(run, Date.now())),
+  'focus-mode:resume': async () => updateFocusRun((run) => resumeFocusRun(run, Date.now())),
+  'focus-mode:extend': async ({ minutes }) => updateFocusRun((run) => extendFocusRun(run, minutes, Date.now())),
+  'focus-mode:stop': async () => {
+    await finishActiveFocusRun('stopped');
+    return { ok: true, state: userState! };
+  },
+  'settings:read': async () => ({ ok: true, settings: repository.get('settings') }),
+  'settings:update': async (patch) => {
+    const previousTz = repository.get('settings').tz;
+    repository.update({ settings: { ...repository.get('settings'), ...patch } });
+    const settings = repository.get('settings');
+    if (settings.tz !== previousTz) {
+      handleTimeZoneChange(previousTz, settings.tz);
+    }
+    if (settings.tz !== previousTz || patch.notifications !== undefined) {
+      await scheduleStreakWarnings();
+    }
+    if (settings.tz !== previousTz || patch.quietHours !== undefined) {
+      await flushNotificationQueue();
+    }
+    if (patch.idleThresholdSeconds !== undefined) {
+      chrome.idle.setDetectionInterval(settings.idleThresholdSeconds);
+    }
+    if (patch.dailyRetentionDays !== undefined || patch.weeklyRetentionWeeks !== undefined) {
+      enforceRetention();
+    }
+    if (patch.pageTracking === false) {
+      // Turning page tracking off also forgets the pages recorded so far.
+      repository.update({ sessions: forgetPageMinutes(repository.get('sessions')) });
+    }
+    return { ok: true, settings };
+  },
+  'sites:read': async () => ({ ok: true, sites: repository.get('sites') }),
+  'sites:upsert': async (site) => {
+    repository.update({ sites: upsertSite(repository.get('sites'), site) });
+    return { ok: true, sites: repository.get('sites') };
+  },
+  'sites:remove': async ({ id }) => {
+    repository.update({ sites: repository.get('sites').filter((site) => site.id !== id) });
+    return { ok: true, sites: repository.get('sites') };
+  },
+  'streaks:read': async () => ({
+    ok: true,
+    streaks: repository.get('streaks'),
+    today: toDateKey(Date.now(), repository.get('settings').tz)
+  }),
+  'streaks:freeze': async ({ siteId }) => {
+    const frozen = await freezeStreak(siteId);
+    return frozen
+      ? { ok: true, streaks: repository.get('streaks') }
+      : rpcError('freeze-unavailable', `Not enough freezes to cover the gap for ${siteId}`);
+  },
+  'data:export': async () => {
+    const { customSounds = [], soundPacks = [] } = await backend.read(['customSounds', 'soundPacks']);
+    return { ok: true, document: createExportDocument({ ...repository.snapshot(), customSounds, soundPacks }) };
+  },
+  'data:import': async ({ document, mode }) => {
+    const validation = validateExportDocument(document);
+    if (!validation.ok || !validation.document) {
+      return rpcError('invalid-document', 'Import document failed validation', [...validation.errors, ...validation.warnings]);
+    }
+    await applyImport(validation.document.data, mode);
+    return {
+      ok: true,
+      warnings: validation.warnings,
+      settings: repository.get('settings'),
+      summary: {
+        sessions: repository.get('sessions').length,
+        streaks: repository.get('streaks').length,
+        sites: repository.get('sites').length
       }
-      case 'settings:update': {
-        cachedSettings = { ...cachedSettings!, ...(message.payload as Partial<Settings>) };
-        await saveSettings(cachedSettings!);
-        sendResponse({ ok: true, settings: cachedSettings });
-        break;
+    };
+  },
+  'stats:read': async () => {
+    const settings = repository.get('settings');
+    return { ok: true, stats: computeStats(repository.snapshot(), settings, toDateKey(Date.now(), settings.tz)) };
+  },
+  'storage:usage': async () => {
+    // Usage is read from storage, so pending writes have to land first.
+    await repository.flush();
+    return {
+      ok: true,
+      usage: {
+        ...(await readStorageQuota()),
+        sessions: repository.get('sessions').length,
+        rollups: repository.get('rollups').length
       }
-      case 'settings:read': {
-        sendResponse({ ok: true, settings: cachedSettings });
-        break;
+    };
+  },
+  'sounds:read': async () => ({ ok: true, ...(await readSoundLibrary()) }),
+  'sounds:add': (input) =>
+    editSoundRecords(async ({ customSounds, soundPacks }): Promise<RpcResponse<'sounds:add'>> => {
+      const next = addCustomSound(customSounds, input, Date.now());
+      if (!next) {
+        return rpcError('sound-limit', `No more than ${CUSTOM_SOUND_LIMITS.maxSounds} custom sounds`);
       }
-      default:
-        sendResponse({ ok: false, reason: 'unknown-message' });
-    }
+      await backend.write({ customSounds: next });
+      return { ok: true, ...describeSoundLibrary(next, soundPacks) };
+    }),
+  'sounds:remove': ({ id }) =>
+    editSoundRecords(async ({ customSounds, soundPacks }) => {
+      const removed = removeCustomSound(customSounds, soundPacks, repository.get('settings'), id);
+      await backend.write({ customSounds: removed.sounds, soundPacks: removed.packs });
+      repository.update({ settings: removed.settings });
+      return { ok: true, ...describeSoundLibrary(removed.sounds, removed.packs), settings: removed.settings };
+    }),
+  'sounds:preview': async ({ soundId }) => {
+    // Previews ignore quiet hours and the mute switch: the user asked to hear it.
+    await playSound(soundId);
+    return { ok: true };
+  },
+  'sound-packs:save': ({ name }) =>
+    editSoundRecords(async ({ customSounds, soundPacks }) => {
+      const next = saveSoundPack(soundPacks, name, repository.get('settings'), Date.now());
+      await backend.write({ soundPacks: next });
+      return { ok: true, ...describeSoundLibrary(customSounds, next) };
+    }),
+  'sound-packs:remove': ({ id }) =>
+    editSoundRecords(async ({ customSounds, soundPacks }) => {
+      const next = soundPacks.filter((pack) => pack.id !== id);
+      await backend.write({ soundPacks: next });
+      return { ok: true, ...describeSoundLibrary(customSounds, next) };
+    })
+};
+
+async function readStorageQuota(): Promise<Pick<StorageUsage, 'bytesInUse' | 'quotaBytes'>> {
+  if (!usesIndexedDb) {
+    return { bytesInUse: await chrome.storage.local.getBytesInUse(null), quotaBytes: chrome.storage.local.QUOTA_BYTES };
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { bytesInUse: usage, quotaBytes: quota };
+}
+
+/**
+ * Runs sound library edits one at a time. Each reads, changes and writes whole
+ * keys, so two in flight at once would otherwise lose one of the writes.
+ */
+function editSoundRecords<T>(edit: (records: SoundRecords) => Promise<T>): Promise<T> {
+  const task = soundEdits.catch(() => undefined).then(async () => {
+    const { customSounds = [], soundPacks = [] } = await backend.read(['customSounds', 'soundPacks']);
+    return edit({ customSounds, soundPacks });
   });
+  soundEdits = task;
+  return task;
+}
+
+async function readSoundLibrary(): Promise<SoundLibrary> {
+  const { customSounds = [], soundPacks = [] } = await backend.read(['customSounds', 'soundPacks']);
+  return describeSoundLibrary(customSounds, soundPacks);
+}
+
+function dispatchRequest(request: RuntimeRequest, sender: chrome.runtime.MessageSender): Promise<RpcResponse<RequestType>> {
+  // The mapped handler type cannot be narrowed through a union key, so the lookup is widened once here.
+  const handler = REQUEST_HANDLERS[request.type] as (
+    payload: unknown,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<RpcResponse<RequestType>>;
+  return handler(request.payload, sender);
+}
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (isPlaySoundMessage(message)) {
+    return false;
+  }
+
+  const parsed = parseRuntimeRequest(message);
+  if (!parsed.ok) {
+    sendResponse(parsed);
+    return false;
+  }
+
+  void ensureCaches()
+    .then(() => dispatchRequest(parsed.request, sender))
+    .then((response) => sendResponse(response))
+    .catch((error) => {
+      console.error('Request failed', parsed.request.type, error);
+      sendResponse(rpcError('internal', error instanceof Error ? error.message : String(error)));
+    });
   return true;
 });
 
-async function handleActivitySlot(slot: ActivitySlot): Promise<void> {
-  if (!cachedSettings) {
-    cachedSettings = DEFAULT_SETTINGS;
+async function handleActivitySlot(incoming: ActivitySlot, sender: chrome.runtime.MessageSender): Promise<boolean> {
+  if (!(await isFromFocusedTab(sender))) {
+    return false;
   }
+  // Slots the overlay scored as scripted input earn nothing and must not advance the ledger.
+  if (creditedSlotSeconds(incoming.durationSec, incoming.confidence) === 0) {
+    return false;
+  }
+  const sites = repository.get('sites');
+  if (!isSlotKindAllowed(incoming, sites)) {
+    return false;
+  }
+  // A slot stamped in the future would claim time that has not happened yet.
+  const stamped = await truncateToSystemActivity({ ...incoming, timestamp: Math.min(incoming.timestamp, Date.now()) });
+  if (!stamped) {
+    return false;
+  }
+  const reconciled = reconcileActivitySlot(stamped, sites, slotLedger);
+  if (!reconciled) {
+    return false;
+  }
+  slotLedger = reconciled.ledger;
+  const { slot } = reconciled;
+
+  const previousStreaks = repository.get('streaks');
+  const aggregated: AggregatedData = { sessions: repository.get('sessions'), streaks: previousStreaks, sites };
+  const next = mergeActivitySlot(slot, aggregated, repository.get('settings'));
+  repository.update({ sessions: next.sessions, streaks: next.streaks });
+
+  await maybeNotifyStreakSaved(previousStreaks, next.streaks);
+  if (next.streaks !== previousStreaks) {
+    await scheduleStreakWarnings();
+  }
+  await maybeClearStreakWarning();
+  return true;
+}
+
+/** Drops or shortens a slot that overlaps a stretch where the machine was idle or locked. */
+async function truncateToSystemActivity(slot: ActivitySlot): Promise<ActivitySlot | null> {
+  const threshold = repository.get('settings').idleThresholdSeconds;
+  let current: SystemIdleState;
+  try {
+    current = await new Promise<SystemIdleState>((resolve) => chrome.idle.queryState(threshold, resolve));
+  } catch (error) {
+    console.warn('Unable to query idle state, accepting slot', error);
+    return slot;
+  }
+  // Record what the query saw, so a missed transition cannot keep every later slot dropped.
+  if (idleLog[idleLog.length - 1]?.state !== current) {
+    idleLog = appendIdleTransition(idleLog, { state: current, at: Date.now() });
+  }
+  return applySystemIdle(slot, current, idleLog, threshold);
+}
 
-  const aggregated: AggregatedData = { sessions: cachedSessions, streaks: cachedStreaks };
-  const next = mergeActivitySlot(slot, aggregated, cachedSettings);
-  cachedSessions = next.sessions;
-  cachedStreaks = next.streaks;
+/** Only the active tab of the focused window may report activity. */
+async function isFromFocusedTab(sender: chrome.runtime.MessageSender): Promise<boolean> {
+  const tab = sender.tab;
+  if (!tab?.active) {
+    return false;
+  }
+  try {
+    const window = await chrome.windows.get(tab.windowId);
+    return window.focused;
+  } catch (error) {
+    console.warn('Unable to read window focus, accepting slot', error);
+    return true;
+  }
+}
+
+function handleTimeZoneChange(previousTz: string, nextTz: string): void {
+  const rebased = rebaseForTimeZoneChange(
+    { sessions: repository.get('sessions'), streaks: repository.get('streaks') },
+    previousTz,
+    nextTz,
+    Date.now()
+  );
+  repository.update({ sessions: rebased.sessions, streaks: rebased.streaks });
+}
+
+async function freezeStreak(siteId: string): Promise<boolean> {
+  const settings = repository.get('settings');
+  const previousStreaks = repository.get('streaks');
+  const streak = previousStreaks.find((item) => item.siteId === siteId);
+  if (!streak) {
+    return false;
+  }
+  const frozen = applyManualFreeze(streak, toDateKey(Date.now(), settings.tz), settings);
+  if (!frozen) {
+    return false;
+  }
+  repository.update({ streaks: upsertStreak(previousStreaks, frozen) });
+  await maybeNotifyStreakSaved(previousStreaks, repository.get('streaks'));
+  await scheduleStreakWarnings();
+  return true;
+}
 
-  await Promise.all([saveSessions(cachedSessions), saveStreaks(cachedStreaks)]);
+/** Folds sessions and weekly roll-ups that aged past the retention settings. */
+function enforceRetention(): void {
+  const settings = repository.get('settings');
+  const retained = applyRetention(
+    { sessions: repository.get('sessions'), rollups: repository.get('rollups') },
+    settings,
+    toDateKey(Date.now(), settings.tz)
+  );
+  repository.update(retained);
+}
 
-  await maybeNotifyStreaks();
-  await maybeNotifyFocus(slot.timestamp);
+async function applyImport(incoming: ExportDocument['data'], mode: ImportMode): Promise<void> {
+  const next = importUserData(repository.snapshot(), incoming, mode);
+  const { customSounds } = await editSoundRecords(async (current) => {
+    const imported = importSoundRecords(current, incoming, mode);
+    await backend.write(imported);
+    return imported;
+  });
+  // Settings may name an imported sound that was skipped; fall back to the bundled one.
+  repository.update({ ...next, settings: resetMissingSounds(next.settings, customSounds) });
+  chrome.idle.setDetectionInterval(next.settings.idleThresholdSeconds);
+  // An import replaces everything at once; write it now rather than on the debounce.
+  await repository.flush();
+  await scheduleStreakWarnings();
 }
 
 async function startFocusMode(payload: FocusModeState): Promise<void> {
-  focusMode = { ...payload };
-  focusEndingNotified = false;
-  await maybeEmitFocusEntry();
+  await finishActiveFocusRun('stopped');
+  await dispatchUserEvent({ type: 'startIntent', siteId: payload.siteId });
+  const run = createFocusRun(payload, currentStreakLength(payload.siteId));
+  await dispatchUserEvent({ type: 'startRun', run });
+  await scheduleFocusAlarms(run);
+}
+
+async function updateFocusRun(
+  transform: (run: FocusRun) => FocusRun
+): Promise<{ ok: true; state: UserState } | RpcError> {
+  const current = activeFocusRun(userState!);
+  if (!current) {
+    return rpcError('no-focus-run', 'No focus run is active');
+  }
+  const run = transform(current);
+  if (run !== current) {
+    await dispatchUserEvent({ type: 'runUpdated', run });
+    await scheduleFocusAlarms(run);
+  }
+  return { ok: true, state: userState! };
+}
+
+/** Ends the active run, records it in the history and clears its alarms. */
+async function finishActiveFocusRun(outcome: FocusRunOutcome): Promise<FocusRunRecord | null> {
+  const run = userState ? activeFocusRun(userState) : null;
+  if (!run) {
+    return null;
+  }
+  const record = finishFocusRun(run, outcome, Date.now());
+  const { focusHistory = [] } = await backend.read(['focusHistory']);
+  await Promise.all([clearFocusAlarms(), backend.write({ focusHistory: appendFocusHistory(focusHistory, record) })]);
+  const streakGrew = run.streakLength !== undefined && currentStreakLength(run.siteId) > run.streakLength;
+  await dispatchUserEvent(outcome === 'completed' ? { type: 'goalReached', record, streakGrew } : { type: 'cancel' });
+  return record;
+}
+
+function currentStreakLength(siteId: string): number {
+  return repository.get('streaks').find((streak) => streak.siteId === siteId)?.length ?? 0;
 }
 
-async function stopFocusMode(): Promise<void> {
-  focusMode = null;
-  focusEndingNotified = false;
+async function scheduleFocusAlarms(run: FocusRun): Promise<void> {
+  await clearFocusAlarms();
+  for (const alarm of planFocusAlarms(run, Date.now())) {
+    await chrome.alarms.create(alarm.name, { when: alarm.when });
+  }
 }
 
-async function maybeEmitFocusEntry(): Promise<void> {
-  if (!focusMode || !cachedSettings) {
+async function clearFocusAlarms(): Promise<void> {
+  await Promise.all([chrome.alarms.clear(FOCUS_ALARMS.warning), chrome.alarms.clear(FOCUS_ALARMS.end)]);
+}
+
+async function handleFocusAlarm(name: string): Promise<void> {
+  await ensureCaches();
+  const run = activeFocusRun(userState!);
+  if (!run) {
     return;
   }
-  const now = new Date();
-  if (evaluateQuietHours(cachedSettings, now).withinQuietHours) {
+  if (name === FOCUS_ALARMS.warning) {
+    if (!isFocusRunOver(run, Date.now())) {
+      await dispatchUserEvent({ type: 'runEnding' });
+    }
     return;
   }
-  if (cachedSettings.notifications) {
-    await createNotification('focus-start', {
-      title: 'Фокус включён',
-      message: `Держим темп ${focusMode.durationMinutes} минут на ${focusMode.siteId}`
-    });
+  if (isFocusRunOver(run, Date.now())) {
+    await finishActiveFocusRun('completed');
+  } else if (run.pausedAt === null) {
+    // Fired early (clock change or a restored plan); wait for the real end.
+    await scheduleFocusAlarms(run);
   }
-  if (cachedSettings.audioEnabled && cachedSettings.focusEntrySound) {
-    await playSound(cachedSettings.focusEntrySound);
+}
+
+async function settleCurrentState(): Promise<void> {
+  if (!userState || !repository.isLoaded()) {
+    return;
   }
+  const now = Date.now();
+  await commitTransition(settleUserState(userState, now, toDateKey(now, repository.get('settings').tz)), 'settle');
+}
+
+/** Single entry point for user-state changes: persist, broadcast, then run the effects. */
+async function dispatchUserEvent(event: UserEvent): Promise<void> {
+  await settleCurrentState();
+  await commitTransition(transitionUserState(userState!, event, Date.now()), event.type);
 }
 
-async function maybeNotifyFocus(nowTs: number): Promise<void> {
-  if (!focusMode || !cachedSettings) {
+// A transition may carry effects without changing the state, e.g. a freeze spent mid-run.
+async function commitTransition(transition: UserStateTransition, eventType: string): Promise<void> {
+  if (transition.changed) {
+    userState = transition.state;
+    await saveUserState(userState);
+    const message: UserStateChangedMessage = { type: 'user-state:changed', payload: { state: userState, event: eventType } };
+    await Promise.all([dispatchToOverlays(message, null), notifyPopup(message)]);
+  }
+  for (const effect of transition.effects) {
+    await applyUserStateEffect(effect);
+  }
+}
+
+async function applyUserStateEffect(effect: UserStateEffect): Promise<void> {
+  if (effect.kind === 'mascot') {
+    await showMascot(effect.animation, effect.caption, effect.siteId);
     return;
   }
-  const now = new Date(nowTs);
-  const endTs = focusMode.startedAt + focusMode.durationMinutes * 60 * 1000;
-  const remaining = endTs - nowTs;
-  if (remaining <= 60_000 && remaining > 0 && !focusEndingNotified) {
-    if (evaluateQuietHours(cachedSettings, now).withinQuietHours) {
-      return;
+  if (!repository.isLoaded()) {
+    return;
+  }
+  const settings = repository.get('settings');
+  const quiet = evaluateQuietHours(settings, new Date());
+  if (effect.kind === 'notification' && settings.notifications) {
+    const { kind: _kind, ...request } = effect;
+    await (quiet.withinQuietHours ? holdNotification(request, quiet.nextBoundary) : createNotification(request));
+  } else if (effect.kind === 'sound' && settings.audioEnabled && !quiet.withinQuietHours) {
+    const soundId = settings[effect.sound];
+    if (soundId) {
+      await playSound(soundId, effect.siteId);
     }
-    if (cachedSettings.notifications) {
-      await createNotification('focus-ending', {
-        title: 'Финиш близко',
-        message: 'Осталась минута до конца серии. Добавим огня?'
-      });
+  }
+}
+
+async function notifyPopup(message: UserStateChangedMessage): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage(message);
+  } catch (error) {
+    // Nobody listens while the popup is closed.
+    if (!isIgnorableMessageError(error)) {
+      console.warn('Failed to notify popup', error);
     }
-    focusEndingNotified = true;
   }
 }
 
-async function maybeNotifyStreaks(): Promise<void> {
-  if (!cachedSettings) {
+/**
+ * Keeps one alarm per streak at the moment its warning is due and clears alarms
+ * for streaks that no longer need one. Warnings already due are delivered now.
+ */
+async function scheduleStreakWarnings(): Promise<void> {
+  const now = Date.now();
+  const { streakWarnings = {} } = await backend.read(['streakWarnings']);
+  const plan = planStreakWarnings(repository.get('streaks'), repository.get('settings'), streakWarnings, now);
+  const planned = new Map(plan.map((item) => [streakWarningAlarmName(item.siteId), item]));
+  const alarms = await chrome.alarms.getAll();
+  for (const alarm of alarms) {
+    const item = planned.get(alarm.name);
+    // A retry alarm sits past the window start and is left alone.
+    if (streakWarningSiteId(alarm.name) && (!item || (item.when > now && alarm.scheduledTime !== item.when))) {
+      await chrome.alarms.clear(alarm.name);
+    }
+  }
+  for (const item of plan) {
+    if (item.when <= now) {
+      await deliverStreakWarning(item.siteId);
+    } else if (!alarms.some((alarm) => alarm.name === streakWarningAlarmName(item.siteId) && alarm.scheduledTime === item.when)) {
+      await chrome.alarms.create(streakWarningAlarmName(item.siteId), { when: item.when });
+    }
+  }
+}
+
+/**
+ * Shows the warning once per streak day. A snoozed site waits for its snooze
+ * alarm, which asks again regardless of the log.
+ */
+async function deliverStreakWarning(siteId: string, fromSnooze = false): Promise<void> {
+  const settings = repository.get('settings');
+  const streak = repository.get('streaks').find((item) => item.siteId === siteId);
+  if (!streak || !shouldWarnStreakExpiry(streak, new Date(), settings)) {
     return;
   }
-  const now = new Date();
-  const quiet = evaluateQuietHours(cachedSettings, now);
-  if (quiet.withinQuietHours) {
+  const { streakWarnings = {} } = await backend.read(['streakWarnings']);
+  if (!fromSnooze && (streakWarnings[siteId] === streak.lastDate || (await chrome.alarms.get(snoozeAlarmName(siteId))))) {
     return;
   }
-  for (const streak of cachedStreaks) {
-    if (shouldWarnStreakExpiry(streak, now, cachedSettings)) {
-      await createNotification(`streak-${streak.siteId}`, {
-        title: 'Серия на волоске',
-        message: `${streak.siteId}: добавьте ${cachedSettings.sessionLengthMinutes} минут, чтобы спасти день`
-      });
+  const site = repository.get('sites').find((item) => item.id === siteId) ?? null;
+  await dispatchUserEvent({ type: 'streakExpireSoon', siteId, goalMinutes: resolveDailyGoalMinutes(site, settings) });
+  if (userState?.name !== 'warning' || userState.siteId !== siteId) {
+    const retryAt = nextStreakWarningRetry(streak, settings.tz, Date.now());
+    if (retryAt !== null) {
+      await chrome.alarms.create(streakWarningAlarmName(siteId), { when: retryAt });
+    }
+    return;
+  }
+  await backend.write({ streakWarnings: recordStreakWarning(streakWarnings, repository.get('streaks'), siteId) });
+}
+
+async function maybeClearStreakWarning(): Promise<void> {
+  if (!repository.isLoaded() || userState?.name !== 'warning') {
+    return;
+  }
+  const { siteId } = userState;
+  const streak = repository.get('streaks').find((item) => item.siteId === siteId);
+  if (!streak || !shouldWarnStreakExpiry(streak, new Date(), repository.get('settings'))) {
+    await dispatchUserEvent({ type: 'streakSecured', siteId });
+  }
+}
+
+async function maybeNotifyStreakSaved(previous: Streak[], next: Streak[]): Promise<void> {
+  if (!repository.isLoaded()) {
+    return;
+  }
+  const date = toDateKey(Date.now(), repository.get('settings').tz);
+  for (const streak of next) {
+    const before = previous.find((item) => item.siteId === streak.siteId);
+    const bridgedDays = (streak.frozenDates?.length ?? 0) - (before?.frozenDates?.length ?? 0);
+    if (bridgedDays > 0) {
+      await dispatchUserEvent({ type: 'useFreeze', streak, bridgedDays, date });
     }
   }
 }
 
-async function createNotification(id: string, options: { title: string; message: string }): Promise<void> {
-  await chrome.notifications.create(id, {
-    type: 'basic',
+async function showMascot(animation: ShowMascotMessage['payload']['animation'], caption: string, siteId: string): Promise<void> {
+  const url = chrome.runtime.getURL(resolveAnimationAsset(animation));
+  const message: ShowMascotMessage = { type: 'mascot:show', payload: { animation, url, caption } };
+  await dispatchToOverlays(message, siteId);
+}
+
+async function createNotification(
+  request: NotificationRequest,
+  items: { title: string; message: string }[] = []
+): Promise<void> {
+  const settings = repository.get('settings');
+  const buttons = request.actions.map((action) => ({ title: notificationButtonTitle(action, settings) }));
+  await chrome.notifications.create(request.id, {
+    type: items.length > 0 ? 'list' : 'basic',
     iconUrl: 'assets/icon-128.png',
-    title: options.title,
-    message: options.message
+    title: request.title,
+    message: request.message,
+    ...(items.length > 0 ? { items } : {}),
+    ...(buttons.length > 0 ? { buttons } : {})
   });
+  await saveNotificationContext(request.id, { siteId: request.siteId, actions: request.actions });
+}
+
+/** Inside quiet hours: low priority turns into a silent overlay nudge, the rest waits for them to end. */
+async function holdNotification(request: NotificationRequest, quietUntil: number | null): Promise<void> {
+  if (!shouldHoldNotification(request)) {
+    await showMascot('nudge-soft', request.message, request.siteId);
+    return;
+  }
+  const { notificationQueue = [] } = await backend.read(['notificationQueue']);
+  await backend.write({ notificationQueue: enqueueNotification(notificationQueue, request, Date.now()) });
+  if (quietUntil !== null) {
+    await chrome.alarms.create(NOTIFICATION_FLUSH_ALARM, { when: quietUntil });
+  }
+}
+
+/** Shows what was held during quiet hours as one notification, or re-arms the alarm if they still last. */
+async function flushNotificationQueue(): Promise<void> {
+  const settings = repository.get('settings');
+  const quiet = evaluateQuietHours(settings, new Date());
+  const { notificationQueue = [] } = await backend.read(['notificationQueue']);
+  if (notificationQueue.length === 0) {
+    return;
+  }
+  if (quiet.withinQuietHours) {
+    if (quiet.nextBoundary !== null) {
+      await chrome.alarms.create(NOTIFICATION_FLUSH_ALARM, { when: quiet.nextBoundary });
+    }
+    return;
+  }
+  await backend.write({ notificationQueue: [] });
+  const delivery = settings.notifications ? collapseQueue(notificationQueue, Date.now(), isStaleNotification) : null;
+  if (delivery) {
+    const { items, ...request } = delivery;
+    await createNotification(request, items);
+  }
+}
+
+// A held streak warning only counts while the streak is still at risk.
+function isStaleNotification(item: QueuedNotification): boolean {
+  if (item.id !== streakWarningNotificationId(item.siteId)) {
+    return false;
+  }
+  const streak = repository.get('streaks').find((candidate) => candidate.siteId === item.siteId);
+  return !streak || !shouldWarnStreakExpiry(streak, new Date(), repository.get('settings'));
+}
+
+/** Body clicks open the site; buttons run the matching action from the notification context. */
+async function handleNotificationClick(id: string, buttonIndex: number | null): Promise<void> {
+  await ensureCaches();
+  const context = await loadNotificationContext(id);
+  await Promise.all([chrome.notifications.clear(id), saveNotificationContext(id, null)]);
+  if (!context) {
+    return;
+  }
+  const action = buttonIndex === null ? null : context.actions[buttonIndex] ?? null;
+  if (action === 'snooze') {
+    await snoozeStreakWarning(context.siteId);
+    return;
+  }
+  if (action === 'extend-focus') {
+    await updateFocusRun((run) => extendFocusRun(run, FOCUS_EXTEND_MINUTES, Date.now()));
+    return;
+  }
+  await openSiteTab(context.siteId);
+  if (action === 'start-focus') {
+    await startFocusMode({ siteId: context.siteId, startedAt: Date.now(), durationMinutes: QUICK_START_MINUTES });
+  }
+}
+
+async function snoozeStreakWarning(siteId: string): Promise<void> {
+  const { snoozeMinutes } = repository.get('settings');
+  await chrome.alarms.create(snoozeAlarmName(siteId), { when: Date.now() + snoozeMinutes * 60_000 });
+  await dispatchUserEvent({ type: 'snooze', siteId });
+}
+
+/** Focuses a tab already on the site, or opens one. */
+async function openSiteTab(siteId: string): Promise<void> {
+  const tabs = await chrome.tabs.query({});
+  const tab = tabs.find((item) => item.id != null && item.url && tabMatchesSite(item.url, siteId));
+  if (tab?.id != null) {
+    await chrome.tabs.update(tab.id, { active: true });
+    await chrome.windows.update(tab.windowId, { focused: true });
+    return;
+  }
+  await chrome.tabs.create({ url: siteLandingUrl(siteId, repository.get('sites')) });
 }
 
-async function playSound(soundId: string): Promise<void> {
+async function playSound(soundId: string, targetSiteId?: string): Promise<void> {
   try {
-    const assetPath = resolveSoundAsset(soundId);
+    const { customSounds = [] } = isCustomSoundId(soundId) ? await backend.read(['customSounds']) : {};
+    const assetPath = resolveSoundAsset(soundId, customSounds);
     if (!assetPath) {
       console.warn('Unknown sound id', soundId);
       return;
     }
-    const url = chrome.runtime.getURL(assetPath);
-    const message: PlaySoundMessage = { type: 'play-sound', payload: { url } };
-    await dispatchToOverlays(message);
+    // Imported sounds are data URLs already; bundled ones live inside the extension.
+    const url = isCustomSoundId(soundId) ? assetPath : chrome.runtime.getURL(assetPath);
+    const message: PlaySoundMessage = { type: 'play-sound', payload: { url, volume: repository.get('settings').audioVolume } };
+    if (await playOffscreen(message)) {
+      return;
+    }
+    // No offscreen document (older browser or creation refused): an open overlay on the site plays it.
+    await dispatchToOverlays(message, targetSiteId);
   } catch (error) {
     console.warn('Unable to play sound', error);
   }
 }
 
-async function dispatchToOverlays(message: PlaySoundMessage): Promise<void> {
+async function playOffscreen(message: PlaySoundMessage): Promise<boolean> {
+  if (!chrome.offscreen) {
+    return false;
+  }
+  try {
+    await ensureOffscreenDocument();
+    const response = (await chrome.runtime.sendMessage(message)) as PlaySoundResponse | undefined;
+    return response?.played === true;
+  } catch (error) {
+    console.warn('Offscreen audio unavailable', error);
+    return false;
+  }
+}
+
+// Chrome closes an idle audio document after a while, so existence is checked on every sound.
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) {
+    return;
+  }
+  offscreenCreation ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_AUDIO_URL,
+      reasons: [chrome.offscreen.Reason.AUDIO_PLAYBACK],
+      justification: 'Plays focus and streak sounds when no tab with the overlay is open'
+    })
+    .finally(() => {
+      offscreenCreation = null;
+    });
+  await offscreenCreation;
+}
+
+async function dispatchToOverlays(
+  message: PlaySoundMessage | ShowMascotMessage | UserStateChangedMessage,
+  targetSiteId: string | null = userState ? activeFocusRun(userState)?.siteId ?? null : null
+): Promise<void> {
   try {
     const tabs = await chrome.tabs.query({});
-    const targetHost = focusMode?.siteId ?? null;
     await Promise.all(
       tabs
         .filter((tab) => {
           if (tab.id == null) {
             return false;
           }
-          if (!targetHost) {
+          if (!targetSiteId) {
             return true;
           }
-          try {
-            return tab.url ? new URL(tab.url).hostname === targetHost : false;
-          } catch (_error) {
-            return false;
-          }
+          return tab.url ? tabMatchesSite(tab.url, targetSiteId) : false;
         })
         .map(async (tab) => {
           if (tab.id == null) {
@@ -208,13 +908,25 @@ async function dispatchToOverlays(message: PlaySoundMessage): Promise<void> {
             await chrome.tabs.sendMessage(tab.id, message);
           } catch (error) {
             if (!isIgnorableMessageError(error)) {
-              console.warn('No overlay to receive audio message', { tabId: tab.id, error });
+              console.warn('No overlay to receive message', { tabId: tab.id, error });
             }
           }
         })
     );
   } catch (error) {
-    console.warn('Failed to query tabs for audio dispatch', error);
+    console.warn('Failed to query tabs for overlay dispatch', error);
+  }
+}
+
+function tabMatchesSite(tabUrl: string, siteId: string): boolean {
+  const site = resolveSiteForUrl(tabUrl, repository.isLoaded() ? repository.get('sites') : []);
+  if (site) {
+    return site.id === siteId;
+  }
+  try {
+    return new URL(tabUrl).hostname === siteId;
+  } catch (_error) {
+    return false;
   }
 }
 
@@ -237,12 +949,51 @@ function isIgnorableMessageError(error: unknown): boolean {
   return message.includes('Could not establish connection') || message.includes('Receiving end does not exist');
 }
 
-chrome.alarms.onAlarm.addListener(async (alarm) => {
-  if (alarm.name === 'refresh-settings') {
-    cachedSettings = await loadSettings(DEFAULT_SETTINGS);
+chrome.alarms.onAlarm.addListener((alarm) => {
+  void handleAlarm(alarm.name).catch((error) => console.error('Alarm failed', alarm.name, error));
+});
+
+async function handleAlarm(name: string): Promise<void> {
+  if (name === 'refresh-settings') {
+    await repository.reload('settings');
+  } else if (isFocusAlarm(name)) {
+    await handleFocusAlarm(name);
+  } else if (name === NOTIFICATION_FLUSH_ALARM) {
+    await ensureCaches();
+    await flushNotificationQueue();
+  } else if (streakWarningSiteId(name)) {
+    await ensureCaches();
+    await deliverStreakWarning(streakWarningSiteId(name)!);
+  } else if (snoozedSiteId(name)) {
+    await ensureCaches();
+    await deliverStreakWarning(snoozedSiteId(name)!, true);
   }
+}
+
+chrome.notifications.onClicked.addListener((id) => {
+  void handleNotificationClick(id, null).catch((error) => console.error('Notification click failed', id, error));
+});
+
+chrome.notifications.onButtonClicked.addListener((id, buttonIndex) => {
+  void handleNotificationClick(id, buttonIndex).catch((error) => console.error('Notification action failed', id, error));
+});
+
+chrome.idle.onStateChanged.addListener((state) => {
+  idleLog = appendIdleTransition(idleLog, { state, at: Date.now() });
 });
 
 chrome.runtime.onInstalled.addListener(() => {
+  // Failures are logged by ensureMigrated and retried on the next event.
+  void ensureMigrated().catch(() => undefined);
   chrome.alarms.create('refresh-settings', { periodInMinutes: 30 });
 });
+
+chrome.runtime.onStartup.addListener(() => {
+  // Loading the caches also re-arms streak warnings for the new browser session.
+  void ensureCaches().catch((error) => console.error('Startup failed', error));
+});
+
+// Last chance to write debounced changes before the worker is torn down.
+chrome.runtime.onSuspend.addListener(() => {
+  void repository.flush();
+});
@@ -1,10 +1,23 @@
+import { CustomSound, CustomSoundInput, SoundPack } from './types.js';
+
 export type PlaySoundMessage = {
   type: 'play-sound';
   payload?: {
     url?: string;
+    volume?: number; // 0..1, full volume when left out
   };
 };
 
+/** Reply from the offscreen document; false means the worker should fall back to an overlay. */
+export interface PlaySoundResponse {
+  played: boolean;
+}
+
+// Settings keys holding the sound for each event; null mutes that event.
+export const SOUND_SETTINGS = ['focusEntrySound', 'focusEndingSound', 'focusSuccessSound', 'streakWarningSound'] as const;
+
+export type SoundSetting = (typeof SOUND_SETTINGS)[number];
+
 export function isPlaySoundMessage(message: unknown): message is PlaySoundMessage {
   return (
     typeof message === 'object' &&
@@ -18,33 +31,108 @@ export const SOUND_LIBRARY: Record<string, string> = {
   'pulse-air': 'assets/audio/pulse-air.wav'
 };
 
-export function resolveSoundAsset(soundId: string | null | undefined): string | null {
+export const CUSTOM_SOUND_PREFIX = 'custom:';
+
+// Imported sounds live in the worker's storage backend next to the history, so they stay small.
+export const CUSTOM_SOUND_LIMITS = {
+  maxBytes: 256 * 1024,
+  maxSeconds: 8,
+  maxSounds: 12,
+  maxNameLength: 40
+};
+
+export const BUILTIN_SOUND_PACKS: SoundPack[] = [
+  {
+    id: 'builtin:classic',
+    name: 'Классика',
+    sounds: {
+      focusEntrySound: 'chime-soft',
+      focusEndingSound: 'chime-soft',
+      focusSuccessSound: 'pulse-air',
+      streakWarningSound: 'pulse-air'
+    }
+  },
+  {
+    id: 'builtin:neon',
+    name: 'Неон',
+    sounds: {
+      focusEntrySound: 'pulse-air',
+      focusEndingSound: 'pulse-air',
+      focusSuccessSound: 'pulse-air',
+      streakWarningSound: 'chime-soft'
+    }
+  },
+  {
+    id: 'builtin:finish-only',
+    name: 'Только финиш',
+    sounds: { focusEntrySound: null, focusEndingSound: null, focusSuccessSound: 'chime-soft', streakWarningSound: null }
+  }
+];
+
+const AUDIO_DATA_URL = /^data:audio\/[\w.+-]+;base64,/;
+
+export function isCustomSoundId(soundId: string): boolean {
+  return soundId.startsWith(CUSTOM_SOUND_PREFIX);
+}
+
+/** Decoded size of a base64 data URL. */
+export function dataUrlByteLength(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/** Why a sound cannot be imported, worded for the popup; empty when it can. */
+export function customSoundProblems(input: Record<keyof CustomSoundInput, unknown>): string[] {
+  const { maxBytes, maxSeconds, maxNameLength } = CUSTOM_SOUND_LIMITS;
+  const problems: string[] = [];
+  if (typeof input.name !== 'string' || input.name.trim().length === 0 || input.name.length > maxNameLength) {
+    problems.push(`Название: от 1 до ${maxNameLength} символов`);
+  }
+  if (typeof input.dataUrl !== 'string' || !AUDIO_DATA_URL.test(input.dataUrl)) {
+    problems.push('Это не аудиофайл');
+  } else if (dataUrlByteLength(input.dataUrl) > maxBytes) {
+    problems.push(`Файл больше ${maxBytes / 1024} КБ`);
+  }
+  const duration = input.durationSec;
+  if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
+    problems.push('Не удалось определить длительность');
+  } else if (duration > maxSeconds) {
+    problems.push(`Звук длиннее ${maxSeconds} секунд`);
+  }
+  return problems;
+}
+
+/** Bundled sounds resolve to a path inside the extension, imported ones to their data URL. */
+export function resolveSoundAsset(soundId: string | null | undefined, customSounds: CustomSound[] = []): string | null {
   if (!soundId) {
     return null;
   }
+  if (isCustomSoundId(soundId)) {
+    return customSounds.find((sound) => sound.id === soundId)?.dataUrl ?? null;
+  }
   const asset = SOUND_LIBRARY[soundId];
   return asset ?? null;
 }
 
-export function handlePlaySoundMessage(message: PlaySoundMessage): void {
+/** Resolves true once playback has started. */
+export async function handlePlaySoundMessage(message: PlaySoundMessage): Promise<boolean> {
   const url = message.payload?.url;
   if (!url) {
-    return;
+    return false;
   }
 
   if (typeof Audio === 'undefined') {
-    return;
+    return false;
   }
 
   try {
     const audio = new Audio(url);
-    const playback = audio.play?.();
-    if (playback && typeof playback.catch === 'function') {
-      playback.catch((error) => {
-        console.warn('Audio playback failed', error);
-      });
-    }
+    audio.volume = Math.min(Math.max(message.payload?.volume ?? 1, 0), 1);
+    await audio.play?.();
+    return true;
   } catch (error) {
     console.warn('Audio playback failed', error);
+    return false;
   }
 }
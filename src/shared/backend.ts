@@ -0,0 +1,91 @@
+import { Session, SessionQuery, StoredRecords } from './types.js';
+
+export type BackendKey = keyof StoredRecords;
+
+const BACKEND_KEY_SET: Record<BackendKey, true> = {
+  settings: true,
+  sessions: true,
+  rollups: true,
+  streaks: true,
+  sites: true,
+  focusHistory: true,
+  streakWarnings: true,
+  notificationQueue: true,
+  customSounds: true,
+  soundPacks: true
+};
+
+/** Every key a backend may hold. */
+export const BACKEND_KEYS = Object.keys(BACKEND_KEY_SET) as BackendKey[];
+
+/**
+ * Where records are persisted. Each key is read and written whole; sessions can
+ * also be queried by site and date range without loading the full history.
+ */
+export interface StorageBackend {
+  /** Resolves with the stored keys only; missing ones are left out. */
+  read<K extends BackendKey>(keys: K[]): Promise<Partial<Pick<StoredRecords, K>>>;
+  /** Replaces every key in the patch. */
+  write(patch: Partial<StoredRecords>): Promise<void>;
+  /** Deletes the keys, so later reads leave them out. */
+  remove(keys: BackendKey[]): Promise<void>;
+  /** Sessions matching the query, ordered by date. */
+  querySessions(query?: SessionQuery): Promise<Session[]>;
+}
+
+export function createChromeBackend(area: chrome.storage.StorageArea = chrome.storage.local): StorageBackend {
+  return {
+    read: (keys) => area.get(keys) as Promise<Partial<StoredRecords>>,
+    write: (patch) => area.set(patch),
+    remove: (keys) => area.remove(keys),
+    async querySessions(query = {}) {
+      const { sessions = [] } = (await area.get('sessions')) as Partial<StoredRecords>;
+      return filterSessions(sessions, query);
+    }
+  };
+}
+
+/** Keeps records in memory, cloned on the way in and out like a real store. */
+export function createMemoryBackend(initial: Partial<StoredRecords> = {}): StorageBackend {
+  const records: Partial<StoredRecords> = structuredClone(initial);
+  return {
+    async read(keys) {
+      const found = keys.filter((key) => records[key] !== undefined).map((key) => [key, structuredClone(records[key])]);
+      return Object.fromEntries(found);
+    },
+    async write(patch) {
+      Object.assign(records, structuredClone(patch));
+    },
+    async remove(keys) {
+      keys.forEach((key) => delete records[key]);
+    },
+    async querySessions(query = {}) {
+      return structuredClone(filterSessions(records.sessions ?? [], query));
+    }
+  };
+}
+
+/**
+ * Moves whatever `from` holds into `to` and deletes it from `from`. Returns the
+ * keys that were moved; a second call finds nothing and writes nothing.
+ */
+export async function moveRecords(from: StorageBackend, to: StorageBackend): Promise<BackendKey[]> {
+  const records = await from.read(BACKEND_KEYS);
+  const keys = Object.keys(records) as BackendKey[];
+  if (keys.length > 0) {
+    await to.write(records);
+    await from.remove(keys);
+  }
+  return keys;
+}
+
+export function filterSessions(sessions: Session[], { siteId, from, to }: SessionQuery): Session[] {
+  return sessions
+    .filter(
+      (session) =>
+        (siteId === undefined || session.siteId === siteId) &&
+        (from === undefined || session.date >= from) &&
+        (to === undefined || session.date <= to)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+}
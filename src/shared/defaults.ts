@@ -0,0 +1,24 @@
+import { resolveBrowserTimeZone } from './timezone.js';
+import { Settings } from './types.js';
+
+export const DEFAULT_SETTINGS: Settings = {
+  tz: resolveBrowserTimeZone(),
+  quietHours: [{ start: 22 * 60, end: 7 * 60, days: [] }],
+  notifications: true,
+  audioEnabled: true,
+  audioVolume: 0.8,
+  focusEntrySound: 'chime-soft',
+  focusEndingSound: 'chime-soft',
+  focusSuccessSound: 'pulse-air',
+  streakWarningSound: 'pulse-air',
+  sessionLengthMinutes: 5,
+  focusPresets: [5, 15, 25, 45],
+  overlayTransparency: 0.8,
+  weeklyFreezes: 1,
+  autoFreeze: true,
+  idleThresholdSeconds: 60,
+  pageTracking: false,
+  snoozeMinutes: 30,
+  dailyRetentionDays: 90,
+  weeklyRetentionWeeks: 52
+};
@@ -0,0 +1,143 @@
+import { StorageBackend } from './backend.js';
+import { Session, StoredRecords } from './types.js';
+
+const DB_VERSION = 1;
+const RECORDS_STORE = 'records';
+const SESSIONS_STORE = 'sessions';
+const BY_DATE = 'byDate';
+const BY_SITE_DATE = 'bySiteDate';
+// Sorts after every YYYY-MM-DD key, so it can close an open-ended range.
+const DATE_KEY_MAX = '\uffff';
+const SESSIONS_MARKER = true;
+
+/**
+ * Sessions get their own object store keyed by id, with indexes on date and
+ * [siteId, date] so range queries never load the whole history. Every other key is
+ * a single value in a plain key-value store, where `sessions` holds a marker so
+ * that sessions never written read as missing rather than empty.
+ *
+ * Writing `sessions` only puts the sessions that changed since the last read or
+ * write and deletes the ones that are gone. Sessions are compared by reference, so
+ * a changed session must be replaced rather than mutated (as `upsertSession` does).
+ */
+export function createIndexedDbBackend(name = 'bychok', factory: IDBFactory = indexedDB): StorageBackend {
+  let opening: Promise<IDBDatabase> | null = null;
+  // Sessions as last read or written; null until then or after a failed write.
+  let known: Map<string, Session> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    if (!opening) {
+      const request = factory.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDS_STORE);
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex(BY_DATE, 'date');
+        sessions.createIndex(BY_SITE_DATE, ['siteId', 'date']);
+      };
+      opening = requestResult(request).catch((error) => {
+        opening = null;
+        throw error;
+      });
+    }
+    return opening;
+  }
+
+  return {
+    async read(keys) {
+      const db = await open();
+      const transaction = db.transaction([RECORDS_STORE, SESSIONS_STORE], 'readonly');
+      const records = transaction.objectStore(RECORDS_STORE);
+      const sessions = transaction.objectStore(SESSIONS_STORE);
+      const values = await Promise.all(
+        keys.map(async (key) => {
+          if (key !== 'sessions') {
+            return requestResult(records.get(key));
+          }
+          const [written, all] = await Promise.all([requestResult(records.get(key)), requestResult(sessions.getAll())]);
+          known = new Map(all.map((session) => [session.id, session]));
+          return written === undefined ? undefined : all;
+        })
+      );
+      const found = keys.map((key, index) => [key, values[index]] as const).filter(([, value]) => value !== undefined);
+      return Object.fromEntries(found) as Partial<StoredRecords>;
+    },
+    async write(patch) {
+      const db = await open();
+      const transaction = db.transaction([RECORDS_STORE, SESSIONS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      let written: Map<string, Session> | null = null;
+      for (const [key, value] of Object.entries(patch)) {
+        if (key === 'sessions') {
+          written = writeSessions(transaction.objectStore(SESSIONS_STORE), value as Session[], known);
+          transaction.objectStore(RECORDS_STORE).put(SESSIONS_MARKER, key);
+        } else {
+          transaction.objectStore(RECORDS_STORE).put(value, key);
+        }
+      }
+      try {
+        await done;
+      } catch (error) {
+        known = null;
+        throw error;
+      }
+      known = written ?? known;
+    },
+    async remove(keys) {
+      const db = await open();
+      const transaction = db.transaction([RECORDS_STORE, SESSIONS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      for (const key of keys) {
+        if (key === 'sessions') {
+          transaction.objectStore(SESSIONS_STORE).clear();
+          known = null;
+        }
+        transaction.objectStore(RECORDS_STORE).delete(key);
+      }
+      await done;
+    },
+    async querySessions({ siteId, from = '', to = DATE_KEY_MAX } = {}) {
+      const db = await open();
+      const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+      const request =
+        siteId === undefined
+          ? store.index(BY_DATE).getAll(IDBKeyRange.bound(from, to))
+          : store.index(BY_SITE_DATE).getAll(IDBKeyRange.bound([siteId, from], [siteId, to]));
+      return requestResult<Session[]>(request);
+    }
+  };
+}
+
+/** Without a known previous state the store is cleared and rewritten once. */
+function writeSessions(store: IDBObjectStore, sessions: Session[], known: Map<string, Session> | null): Map<string, Session> {
+  const next = new Map(sessions.map((session) => [session.id, session]));
+  if (!known) {
+    store.clear();
+  }
+  next.forEach((session, id) => {
+    if (known?.get(id) !== session) {
+      store.put(session);
+    }
+  });
+  known?.forEach((_session, id) => {
+    if (!next.has(id)) {
+      store.delete(id);
+    }
+  });
+  return next;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
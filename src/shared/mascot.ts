@@ -0,0 +1,45 @@
+export type MascotAnimationId =
+  | 'idle-chill'
+  | 'hello'
+  | 'focus-on'
+  | 'nudge-soft'
+  | 'warning-expire'
+  | 'success'
+  | 'streak-saved'
+  | 'sleep'
+  | 'oops'
+  | 'quest';
+
+export type ShowMascotMessage = {
+  type: 'mascot:show';
+  payload: {
+    animation: MascotAnimationId;
+    url: string;
+    caption: string;
+  };
+};
+
+export function isShowMascotMessage(message: unknown): message is ShowMascotMessage {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as { type?: unknown }).type === 'mascot:show'
+  );
+}
+
+export const MASCOT_ANIMATIONS: Record<MascotAnimationId, string> = {
+  'idle-chill': 'assets/lottie/idle-chill.json',
+  hello: 'assets/lottie/hello.json',
+  'focus-on': 'assets/lottie/focus-on.json',
+  'nudge-soft': 'assets/lottie/nudge-soft.json',
+  'warning-expire': 'assets/lottie/warning-expire.json',
+  success: 'assets/lottie/success.json',
+  'streak-saved': 'assets/lottie/streak-saved.json',
+  sleep: 'assets/lottie/sleep.json',
+  oops: 'assets/lottie/oops.json',
+  quest: 'assets/lottie/quest.json'
+};
+
+export function resolveAnimationAsset(animation: MascotAnimationId): string {
+  return MASCOT_ANIMATIONS[animation];
+}
@@ -0,0 +1,213 @@
+import { customSoundProblems } from './audio.js';
+import {
+  ActivitySlot,
+  CustomSoundInput,
+  ExportDocument,
+  FocusModeState,
+  ImportMode,
+  Settings,
+  Site,
+  SoundLibrary,
+  StatsSummary,
+  StorageUsage,
+  Streak,
+  UserState
+} from './types.js';
+import { FOCUS_MINUTES_RANGE, isRecord, settingsFieldProblem } from './validation.js';
+
+type EmptyResponse = Record<never, never>;
+
+/**
+ * Every request the popup and overlay can send to the service worker, with the
+ * payload it carries and the fields of a successful response.
+ */
+export interface RequestCatalogue {
+  'activity-slot': { request: ActivitySlot; response: { counted: boolean } };
+  'user-state:read': { request: void; response: { state: UserState } };
+  'focus-mode:start': { request: Omit<FocusModeState, 'startedAt'>; response: { state: UserState } };
+  'focus-mode:pause': { request: void; response: { state: UserState } };
+  'focus-mode:resume': { request: void; response: { state: UserState } };
+  'focus-mode:extend': { request: { minutes: number }; response: { state: UserState } };
+  'focus-mode:stop': { request: void; response: { state: UserState } };
+  'settings:read': { request: void; response: { settings: Settings } };
+  'settings:update': { request: Partial<Settings>; response: { settings: Settings } };
+  'sites:read': { request: void; response: { sites: Site[] } };
+  'sites:upsert': { request: Site; response: { sites: Site[] } };
+  'sites:remove': { request: { id: string }; response: { sites: Site[] } };
+  'streaks:read': { request: void; response: { streaks: Streak[]; today: string } };
+  'streaks:freeze': { request: { siteId: string }; response: { streaks: Streak[] } };
+  'data:export': { request: void; response: { document: ExportDocument } };
+  'data:import': {
+    request: { document: unknown; mode: ImportMode };
+    response: {
+      warnings: string[];
+      settings: Settings;
+      summary: { sessions: number; streaks: number; sites: number };
+    };
+  };
+  'storage:usage': { request: void; response: { usage: StorageUsage } };
+  'stats:read': { request: void; response: { stats: StatsSummary } };
+  'sounds:read': { request: void; response: SoundLibrary };
+  'sounds:add': { request: CustomSoundInput; response: SoundLibrary };
+  'sounds:remove': { request: { id: string }; response: SoundLibrary & { settings: Settings } };
+  'sounds:preview': { request: { soundId: string }; response: EmptyResponse };
+  'sound-packs:save': { request: { name: string }; response: SoundLibrary };
+  'sound-packs:remove': { request: { id: string }; response: SoundLibrary };
+}
+
+export type RequestType = keyof RequestCatalogue;
+export type RequestPayload<K extends RequestType> = RequestCatalogue[K]['request'];
+export type ResponseData<K extends RequestType> = RequestCatalogue[K]['response'];
+
+export type RuntimeRequest = {
+  [K in RequestType]: RequestPayload<K> extends void ? { type: K; payload?: undefined } : { type: K; payload: RequestPayload<K> };
+}[RequestType];
+
+export type RpcErrorCode =
+  | 'unknown-message'
+  | 'invalid-payload'
+  | 'freeze-unavailable'
+  | 'no-focus-run'
+  | 'invalid-document'
+  | 'sound-limit'
+  | 'unreachable'
+  | 'internal';
+
+export interface RpcError {
+  ok: false;
+  error: {
+    code: RpcErrorCode;
+    message: string;
+    details?: string[];
+  };
+}
+
+export type RpcResponse<K extends RequestType> = ({ ok: true } & ResponseData<K>) | RpcError;
+
+export function rpcError(code: RpcErrorCode, message: string, details?: string[]): RpcError {
+  return { ok: false, error: details ? { code, message, details } : { code, message } };
+}
+
+/**
+ * Broadcast from the service worker to overlays and the popup after every user-state
+ * transition; `event` names the transition, e.g. `goalReached` when a run completes.
+ */
+export interface UserStateChangedMessage {
+  type: 'user-state:changed';
+  payload: { state: UserState; event: string };
+}
+
+export function isUserStateChangedMessage(message: unknown): message is UserStateChangedMessage {
+  return isRecord(message) && message.type === 'user-state:changed' && isRecord(message.payload);
+}
+
+type PayloadValidator = (payload: unknown) => string[];
+
+const noPayload: PayloadValidator = () => [];
+
+const PAYLOAD_VALIDATORS: Record<RequestType, PayloadValidator> = {
+  'activity-slot': (payload) =>
+    requireRecord(payload, (slot) => [
+      ...(slot.kind === 'input' || slot.kind === 'media' ? [] : ['kind: ожидается input или media']),
+      ...expectString(slot, 'siteId'),
+      ...expectString(slot, 'url'),
+      ...expectNumber(slot, 'durationSec', { min: 0 }),
+      ...expectNumber(slot, 'timestamp'),
+      ...(slot.confidence === undefined ? [] : expectNumber(slot, 'confidence', { min: 0, max: 1 }))
+    ]),
+  'focus-mode:start': (payload) =>
+    requireRecord(payload, (focus) => [
+      ...expectString(focus, 'siteId'),
+      ...expectNumber(focus, 'durationMinutes', { ...FOCUS_MINUTES_RANGE, integer: true })
+    ]),
+  'user-state:read': noPayload,
+  'focus-mode:pause': noPayload,
+  'focus-mode:resume': noPayload,
+  'focus-mode:extend': (payload) =>
+    requireRecord(payload, (body) => expectNumber(body, 'minutes', { ...FOCUS_MINUTES_RANGE, integer: true })),
+  'focus-mode:stop': noPayload,
+  'settings:read': noPayload,
+  'settings:update': (payload) =>
+    requireRecord(payload, (patch) =>
+      Object.entries(patch).flatMap(([key, value]) => {
+        const problem = settingsFieldProblem(key, value);
+        return problem ? [`${key}: ${problem}`] : [];
+      })
+    ),
+  'sites:read': noPayload,
+  'sites:upsert': (payload) =>
+    requireRecord(payload, (site) => [
+      ...expectString(site, 'id'),
+      ...expectString(site, 'pattern'),
+      ...(site.pathPrefix === null ? [] : expectString(site, 'pathPrefix')),
+      ...expectNumber(site, 'dailyGoalMin', { min: 1 }),
+      ...(typeof site.overlayEnabled === 'boolean' ? [] : ['overlayEnabled: ожидается boolean']),
+      ...(typeof site.mediaTracking === 'boolean' ? [] : ['mediaTracking: ожидается boolean'])
+    ]),
+  'sites:remove': (payload) => requireRecord(payload, (body) => expectString(body, 'id')),
+  'streaks:read': noPayload,
+  'streaks:freeze': (payload) => requireRecord(payload, (body) => expectString(body, 'siteId')),
+  'data:export': noPayload,
+  'data:import': (payload) =>
+    requireRecord(payload, (body) => [
+      ...('document' in body ? [] : ['document: обязательное поле']),
+      ...(body.mode === 'replace' || body.mode === 'merge' ? [] : ['mode: ожидается replace или merge'])
+    ]),
+  'storage:usage': noPayload,
+  'stats:read': noPayload,
+  'sounds:read': noPayload,
+  'sounds:add': (payload) =>
+    requireRecord(payload, (sound) => customSoundProblems({ name: sound.name, dataUrl: sound.dataUrl, durationSec: sound.durationSec })),
+  'sounds:remove': (payload) => requireRecord(payload, (body) => expectString(body, 'id')),
+  'sounds:preview': (payload) => requireRecord(payload, (body) => expectString(body, 'soundId')),
+  'sound-packs:save': (payload) => requireRecord(payload, (body) => expectString(body, 'name')),
+  'sound-packs:remove': (payload) => requireRecord(payload, (body) => expectString(body, 'id'))
+};
+
+export function isRequestType(value: unknown): value is RequestType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, value);
+}
+
+/** Runtime guard for anything arriving through `chrome.runtime.onMessage`. */
+export function parseRuntimeRequest(message: unknown): { ok: true; request: RuntimeRequest } | RpcError {
+  if (!isRecord(message) || typeof message.type !== 'string') {
+    return rpcError('unknown-message', 'Message must be an object with a string type');
+  }
+  if (!isRequestType(message.type)) {
+    return rpcError('unknown-message', `Unknown message type: ${message.type}`);
+  }
+  const problems = PAYLOAD_VALIDATORS[message.type](message.payload);
+  if (problems.length > 0) {
+    return rpcError('invalid-payload', `Invalid payload for ${message.type}`, problems);
+  }
+  return { ok: true, request: { type: message.type, payload: message.payload } as RuntimeRequest };
+}
+
+function requireRecord(payload: unknown, check: (value: Record<string, unknown>) => string[]): string[] {
+  return isRecord(payload) ? check(payload) : ['payload: ожидается объект'];
+}
+
+function expectString(value: Record<string, unknown>, key: string): string[] {
+  return typeof value[key] === 'string' && (value[key] as string).length > 0 ? [] : [`${key}: ожидается непустая строка`];
+}
+
+function expectNumber(
+  value: Record<string, unknown>,
+  key: string,
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): string[] {
+  const candidate = value[key];
+  if (typeof candidate !== 'number' || !Number.isFinite(candidate)) {
+    return [`${key}: ожидается число`];
+  }
+  if (options.integer && !Number.isInteger(candidate)) {
+    return [`${key}: ожидается целое число`];
+  }
+  if (options.min !== undefined && candidate < options.min) {
+    return [`${key}: не меньше ${options.min}`];
+  }
+  if (options.max !== undefined && candidate > options.max) {
+    return [`${key}: не больше ${options.max}`];
+  }
+  return [];
+}
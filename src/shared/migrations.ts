@@ -0,0 +1,165 @@
+import { createSite, normalizeSiteInput } from './sites.js';
+
+/**
+ * Raw snapshot of the stored records. Migrations work on untyped data because
+ * they must accept shapes written by any older release.
+ */
+export type StoredData = Record<string, unknown>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: StoredData): StoredData;
+}
+
+export interface MigrationOutcome {
+  data: StoredData;
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Drop malformed sessions, streaks and quiet-hour ranges written before the schema was versioned',
+    migrate(data) {
+      const next: StoredData = { ...data };
+      next.sessions = asArray(data.sessions).filter(isSessionLike).map((session) => ({
+        ...session,
+        activeMinutes: Number(session.activeMinutes) || 0
+      }));
+      next.streaks = asArray(data.streaks).filter(isStreakLike);
+      if (isRecord(data.settings)) {
+        const settings = { ...data.settings };
+        if ('quietHours' in settings) {
+          settings.quietHours = asArray(settings.quietHours).filter(isHourRange);
+        }
+        next.settings = settings;
+      } else {
+        delete next.settings;
+      }
+      return next;
+    }
+  },
+  {
+    version: 2,
+    description: 'Move settings.savedSites hostnames into Site records',
+    migrate(data) {
+      if (!isRecord(data.settings) || !('savedSites' in data.settings)) {
+        return data;
+      }
+      const { savedSites, ...settings } = data.settings;
+      const sites = asArray(data.sites).filter(isRecord);
+      const knownIds = new Set(sites.map((site) => site.id));
+      for (const value of asArray(savedSites)) {
+        const input = typeof value === 'string' ? normalizeSiteInput(value) : null;
+        if (!input) {
+          continue;
+        }
+        const site = createSite(input);
+        if (!knownIds.has(site.id)) {
+          knownIds.add(site.id);
+          sites.push({ ...site });
+        }
+      }
+      return { ...data, settings, sites };
+    }
+  },
+  {
+    version: 3,
+    description: 'Forget the hard-coded +00:00 zone so the browser IANA zone becomes the default',
+    migrate(data) {
+      if (!isRecord(data.settings) || data.settings.tz !== '+00:00') {
+        return data;
+      }
+      const { tz: _legacyDefault, ...settings } = data.settings;
+      return { ...data, settings };
+    }
+  },
+  {
+    version: 4,
+    description: 'Turn [startHour, endHour] quiet-hour pairs into minute-precision ranges with weekdays',
+    migrate(data) {
+      if (!isRecord(data.settings) || !Array.isArray(data.settings.quietHours)) {
+        return data;
+      }
+      const quietHours = data.settings.quietHours.map((range) =>
+        isHourRange(range) ? { start: (range as number[])[0] * 60, end: (range as number[])[1] * 60, days: [] } : range
+      );
+      return { ...data, settings: { ...data.settings, quietHours } };
+    }
+  },
+  {
+    version: 5,
+    description: 'Add the media-tracking opt-in to sites, off by default',
+    migrate(data) {
+      if (!Array.isArray(data.sites)) {
+        return data;
+      }
+      const sites = data.sites.map((site) =>
+        isRecord(site) ? { ...site, mediaTracking: site.mediaTracking === true } : site
+      );
+      return { ...data, sites };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Applies every migration newer than `fromVersion` in order. Running it again on
+ * its own output is a no-op because the version moves forward with the data.
+ */
+export function applyMigrations(data: StoredData, fromVersion: number): MigrationOutcome {
+  let current = data;
+  const applied: number[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    current = migration.migrate(current);
+    applied.push(migration.version);
+  }
+  return {
+    data: current,
+    fromVersion,
+    toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+    applied
+  };
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSessionLike(value: unknown): value is Record<string, unknown> {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.siteId === 'string' &&
+    typeof value.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value.date)
+  );
+}
+
+function isStreakLike(value: unknown): value is Record<string, unknown> {
+  return (
+    isRecord(value) &&
+    typeof value.siteId === 'string' &&
+    typeof value.length === 'number' &&
+    typeof value.lastDate === 'string'
+  );
+}
+
+function isHourRange(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((hour) => Number.isInteger(hour) && hour >= 0 && hour <= 23)
+  );
+}
@@ -0,0 +1,20 @@
+import { RequestPayload, RequestType, rpcError, RpcResponse } from './messages.js';
+import { isRecord } from './validation.js';
+
+type PayloadArgs<K extends RequestType> = RequestPayload<K> extends void ? [] : [payload: RequestPayload<K>];
+
+/**
+ * Typed wrapper over `chrome.runtime.sendMessage` for popup and overlay. Never
+ * throws: transport failures come back as an `unreachable` error response.
+ */
+export async function sendRequest<K extends RequestType>(type: K, ...args: PayloadArgs<K>): Promise<RpcResponse<K>> {
+  try {
+    const response: unknown = await chrome.runtime.sendMessage({ type, payload: args[0] });
+    if (!isRecord(response) || typeof response.ok !== 'boolean') {
+      return rpcError('unreachable', `No response for ${type}`);
+    }
+    return response as unknown as RpcResponse<K>;
+  } catch (error) {
+    return rpcError('unreachable', error instanceof Error ? error.message : String(error));
+  }
+}
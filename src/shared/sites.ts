@@ -0,0 +1,115 @@
+import { Site } from './types.js';
+
+export const DEFAULT_SITE_GOAL_MINUTES = 5;
+
+export interface SiteInput {
+  pattern: string;
+  pathPrefix: string | null;
+}
+
+export function createSiteId(pattern: string, pathPrefix: string | null): string {
+  return pathPrefix ? `${pattern}${pathPrefix}` : pattern;
+}
+
+export function createSite(input: SiteInput, overrides: Partial<Omit<Site, 'id' | 'pattern' | 'pathPrefix'>> = {}): Site {
+  return {
+    id: createSiteId(input.pattern, input.pathPrefix),
+    pattern: input.pattern,
+    pathPrefix: input.pathPrefix,
+    dailyGoalMin: overrides.dailyGoalMin ?? DEFAULT_SITE_GOAL_MINUTES,
+    overlayEnabled: overrides.overlayEnabled ?? true,
+    mediaTracking: overrides.mediaTracking ?? false
+  };
+}
+
+export function normalizeSiteInput(value: string): SiteInput | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  // Hosts are case-insensitive, paths are not: `matchesPathPrefix` compares them as typed.
+  try {
+    const url = trimmed.includes('://') ? new URL(trimmed) : new URL(`https://${trimmed}`);
+    const pattern = url.hostname.replace(/^www\./, '');
+    if (!pattern) {
+      return null;
+    }
+    return { pattern, pathPrefix: normalizePathPrefix(url.pathname) };
+  } catch (_error) {
+    const [host, ...rest] = trimmed.split('/');
+    const pattern = host.toLowerCase().replace(/^www\./, '').split(/[?#]/)[0];
+    if (!pattern) {
+      return null;
+    }
+    return { pattern, pathPrefix: normalizePathPrefix(`/${rest.join('/')}`) };
+  }
+}
+
+export function normalizePathPrefix(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const path = value.split(/[?#]/)[0].replace(/\/+$/, '');
+  if (!path || path === '/') {
+    return null;
+  }
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+const MAX_PAGE_KEY_LENGTH = 200;
+
+/**
+ * Page key for per-page accounting: host without `www.` plus path, with query
+ * string, fragment, repeated and trailing slashes dropped. Null for non-web URLs.
+ */
+export function normalizePageUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (_error) {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return null;
+  }
+  const hostname = parsed.hostname.replace(/^www\./, '').toLowerCase();
+  const path = parsed.pathname.replace(/\/{2,}/g, '/').replace(/\/+$/, '') || '/';
+  return `${hostname}${path}`.slice(0, MAX_PAGE_KEY_LENGTH);
+}
+
+/**
+ * Picks the most specific site for a URL: exact host beats subdomain match,
+ * longer path prefix beats shorter (or none).
+ */
+export function resolveSiteForUrl(url: string, sites: Site[]): Site | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (_error) {
+    return null;
+  }
+  const hostname = parsed.hostname.replace(/^www\./, '').toLowerCase();
+  const pathname = parsed.pathname;
+
+  let best: Site | null = null;
+  let bestScore = -1;
+  for (const site of sites) {
+    const exactHost = hostname === site.pattern;
+    if (!exactHost && !hostname.endsWith(`.${site.pattern}`)) {
+      continue;
+    }
+    if (site.pathPrefix && !matchesPathPrefix(pathname, site.pathPrefix)) {
+      continue;
+    }
+    const score = (site.pathPrefix?.length ?? 0) * 2 + (exactHost ? 1 : 0);
+    if (score > bestScore) {
+      best = site;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function matchesPathPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
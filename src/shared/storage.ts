@@ -1,16 +1,17 @@
-import { Session, Settings, Streak } from './types.js';
+import { BACKEND_KEYS, createChromeBackend, StorageBackend } from './backend.js';
+import { NotificationContext, Session, Site, Streak, StoredRecords, UserState } from './types.js';
+import { applyMigrations, MigrationOutcome, StoredData } from './migrations.js';
 
+// Record keys belong to the backend (`backend.ts`); the schema version is tracked beside them.
 const STORAGE_KEYS = {
-  sessions: 'sessions',
-  streaks: 'streaks',
-  settings: 'settings'
+  schemaVersion: 'schemaVersion'
 } as const;
 
-type StorageShape = {
-  [STORAGE_KEYS.sessions]: Session[];
-  [STORAGE_KEYS.streaks]: Streak[];
-  [STORAGE_KEYS.settings]: Settings | null;
-};
+// Lives in chrome.storage.session: survives worker suspension, cleared with the browser session.
+const SESSION_KEYS = {
+  userState: 'userState',
+  notificationContexts: 'notificationContexts'
+} as const;
 
 function getStorage(): chrome.storage.LocalStorageArea {
   if (!chrome?.storage?.local) {
@@ -19,47 +20,114 @@ function getStorage(): chrome.storage.LocalStorageArea {
   return chrome.storage.local;
 }
 
-export async function loadSettings(defaults: Settings): Promise<Settings> {
-  const storage = getStorage();
-  const result = await storage.get(STORAGE_KEYS.settings) as Partial<StorageShape>;
-  return { ...defaults, ...(result[STORAGE_KEYS.settings] ?? {}) };
+function getSessionStorage(): chrome.storage.SessionStorageArea {
+  if (!chrome?.storage?.session) {
+    throw new Error('chrome.storage.session is not available in this context');
+  }
+  return chrome.storage.session;
 }
 
-export async function saveSettings(settings: Settings): Promise<void> {
+/**
+ * Brings stored records up to the current schema version. Safe to call on every
+ * worker start: an up-to-date store is read once and left untouched. The version
+ * itself always lives in chrome.storage.local, whichever backend holds the records.
+ */
+export async function migrateStorage(records: StorageBackend = createChromeBackend()): Promise<MigrationOutcome> {
   const storage = getStorage();
-  await storage.set({ [STORAGE_KEYS.settings]: settings });
+  const { [STORAGE_KEYS.schemaVersion]: storedVersion } = (await storage.get(STORAGE_KEYS.schemaVersion)) as StoredData;
+  const data = (await records.read(BACKEND_KEYS)) as StoredData;
+  const fromVersion = typeof storedVersion === 'number' ? storedVersion : 0;
+  const outcome = applyMigrations(data, fromVersion);
+  if (outcome.applied.length === 0) {
+    return outcome;
+  }
+  const removedKeys = BACKEND_KEYS.filter((key) => key in data && !(key in outcome.data));
+  if (removedKeys.length > 0) {
+    await records.remove(removedKeys);
+  }
+  await records.write(outcome.data as Partial<StoredRecords>);
+  await storage.set({ [STORAGE_KEYS.schemaVersion]: outcome.toVersion });
+  return outcome;
 }
 
-export async function loadSessions(): Promise<Session[]> {
-  const storage = getStorage();
-  const result = await storage.get(STORAGE_KEYS.sessions) as Partial<StorageShape>;
-  return result[STORAGE_KEYS.sessions] ?? [];
+export async function loadUserState(): Promise<UserState | null> {
+  const storage = getSessionStorage();
+  const result = await storage.get(SESSION_KEYS.userState) as { [SESSION_KEYS.userState]?: UserState };
+  return result[SESSION_KEYS.userState] ?? null;
 }
 
-export async function saveSessions(sessions: Session[]): Promise<void> {
-  const storage = getStorage();
-  await storage.set({ [STORAGE_KEYS.sessions]: sessions });
+export async function saveUserState(state: UserState): Promise<void> {
+  const storage = getSessionStorage();
+  await storage.set({ [SESSION_KEYS.userState]: state });
 }
 
-export async function loadStreaks(): Promise<Streak[]> {
-  const storage = getStorage();
-  const result = await storage.get(STORAGE_KEYS.streaks) as Partial<StorageShape>;
-  return result[STORAGE_KEYS.streaks] ?? [];
+type NotificationContexts = Record<string, NotificationContext>;
+
+async function loadNotificationContexts(): Promise<NotificationContexts> {
+  const storage = getSessionStorage();
+  const result = await storage.get(SESSION_KEYS.notificationContexts) as {
+    [SESSION_KEYS.notificationContexts]?: NotificationContexts;
+  };
+  return result[SESSION_KEYS.notificationContexts] ?? {};
 }
 
-export async function saveStreaks(streaks: Streak[]): Promise<void> {
-  const storage = getStorage();
-  await storage.set({ [STORAGE_KEYS.streaks]: streaks });
+// Kept beside the user state so a click still resolves after the worker restarts.
+export async function loadNotificationContext(id: string): Promise<NotificationContext | null> {
+  return (await loadNotificationContexts())[id] ?? null;
+}
+
+export async function saveNotificationContext(id: string, context: NotificationContext | null): Promise<void> {
+  const { [id]: _previous, ...contexts } = await loadNotificationContexts();
+  await getSessionStorage().set({
+    [SESSION_KEYS.notificationContexts]: context ? { ...contexts, [id]: context } : contexts
+  });
+}
+
+// Positions by Session.id, cached per array. Replacing or appending a session keeps
+// every earlier position, so the derived array shares its parent's index.
+const sessionIndexes = new WeakMap<Session[], Map<string, number>>();
+
+function indexSessions(sessions: Session[]): Map<string, number> {
+  let index = sessionIndexes.get(sessions);
+  if (!index) {
+    index = new Map(sessions.map((session, position) => [session.id, position]));
+    sessionIndexes.set(sessions, index);
+  }
+  return index;
+}
+
+function findSessionPosition(sessions: Session[], id: string): number {
+  const position = indexSessions(sessions).get(id);
+  if (position === undefined) {
+    return -1;
+  }
+  if (sessions[position]?.id === id) {
+    return position;
+  }
+  // Another array derived from the same parent moved this id; rebuild for this one.
+  const own = new Map(sessions.map((session, index) => [session.id, index]));
+  sessionIndexes.set(sessions, own);
+  return own.get(id) ?? -1;
+}
+
+export function findSession(sessions: Session[], id: string): Session | undefined {
+  const position = findSessionPosition(sessions, id);
+  return position >= 0 ? sessions[position] : undefined;
 }
 
 export function upsertSession(sessions: Session[], session: Session): Session[] {
-  const index = sessions.findIndex((item) => item.id === session.id);
-  if (index >= 0) {
-    const next = [...sessions];
-    next[index] = session;
-    return next;
+  const position = findSessionPosition(sessions, session.id);
+  const index = indexSessions(sessions);
+  let next: Session[];
+  if (position >= 0) {
+    next = [...sessions];
+    next[position] = session;
+  } else {
+    next = [...sessions, session];
+    index.set(session.id, sessions.length);
   }
-  return [...sessions, session];
+  sessionIndexes.set(next, index);
+  return next;
 }
 
 export function upsertStreak(streaks: Streak[], streak: Streak): Streak[] {
@@ -71,3 +139,13 @@ export function upsertStreak(streaks: Streak[], streak: Streak): Streak[] {
   }
   return [...streaks, streak];
 }
+
+export function upsertSite(sites: Site[], site: Site): Site[] {
+  const index = sites.findIndex((item) => item.id === site.id);
+  if (index >= 0) {
+    const next = [...sites];
+    next[index] = site;
+    return next;
+  }
+  return [...sites, site];
+}
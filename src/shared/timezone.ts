@@ -0,0 +1,111 @@
+const OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/;
+const MINUTE_MS = 60 * 1000;
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1..12
+  day: number;
+  hour: number; // 0..23
+  minute: number;
+  weekday: number; // 0 = Sunday, as Date#getDay
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+export function resolveBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (_error) {
+    return 'UTC';
+  }
+}
+
+export function parseTzOffsetMinutes(tz: string): number {
+  const match = tz.match(/([+-])(\d{2}):(\d{2})/);
+  if (!match) {
+    return 0;
+  }
+  const [, sign, hours, minutes] = match;
+  const value = Number(hours) * 60 + Number(minutes);
+  return sign === '-' ? -value : value;
+}
+
+/** Accepts IANA zone names (`Europe/Berlin`) and legacy fixed offsets (`+03:00`). */
+export function isValidTimeZone(tz: string): boolean {
+  if (OFFSET_PATTERN.test(tz)) {
+    return true;
+  }
+  return getFormatter(tz) !== null;
+}
+
+export function getZonedParts(timestamp: number, tz: string): ZonedParts {
+  const formatter = OFFSET_PATTERN.test(tz) ? null : getFormatter(tz);
+  if (!formatter) {
+    const shifted = new Date(timestamp + parseTzOffsetMinutes(tz) * MINUTE_MS);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+      hour: shifted.getUTCHours(),
+      minute: shifted.getUTCMinutes(),
+      weekday: shifted.getUTCDay()
+    };
+  }
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+  // Some engines render midnight as hour 24.
+  const hour = values.hour % 24;
+  const weekday = new Date(Date.UTC(values.year, values.month - 1, values.day)).getUTCDay();
+  return { year: values.year, month: values.month, day: values.day, hour, minute: values.minute, weekday };
+}
+
+/** Offset of the zone from UTC at the given instant, DST included. */
+export function getZoneOffsetMinutes(timestamp: number, tz: string): number {
+  const parts = getZonedParts(timestamp, tz);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+  return Math.round((wallClock - truncated) / MINUTE_MS);
+}
+
+export function formatDateKey(parts: Pick<ZonedParts, 'year' | 'month' | 'day'>): string {
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * Epoch ms of a wall-clock time in the zone. Times skipped by a DST jump resolve
+ * to the instant just after the gap.
+ */
+export function zonedTimeToEpoch(dateKey: string, minutesOfDay: number, tz: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutesOfDay * MINUTE_MS;
+  // Two passes settle the offset on both sides of a DST transition.
+  let guess = wallClock - getZoneOffsetMinutes(wallClock, tz) * MINUTE_MS;
+  guess = wallClock - getZoneOffsetMinutes(guess, tz) * MINUTE_MS;
+  return guess;
+}
+
+function getFormatter(tz: string): Intl.DateTimeFormat | null {
+  const cached = formatterCache.get(tz);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatterCache.set(tz, formatter);
+    return formatter;
+  } catch (_error) {
+    return null;
+  }
+}
@@ -1,8 +1,33 @@
+export interface Site {
+  id: string;
+  pattern: string; // hostname without www, e.g. leetcode.com
+  pathPrefix: string | null; // e.g. /problems
+  dailyGoalMin: number;
+  overlayEnabled: boolean;
+  mediaTracking: boolean; // count playing video/audio as active time
+}
+
 export interface Session {
   id: string;
   siteId: string;
   date: string; // ISO date string YYYY-MM-DD in user tz
   activeMinutes: number;
+  mediaMinutes?: number; // part of activeMinutes credited from media slots
+  hourlyMinutes?: number[]; // 24 buckets by local hour in the zone active when recorded
+  pageMinutes?: Record<string, number>; // by normalized page (host + path), only while page tracking is on
+}
+
+export type RollupPeriod = 'week' | 'month';
+
+/** Daily sessions past the retention window, summed per site and week or month. */
+export interface SessionRollup {
+  id: string; // `${siteId}:${period}:${start}`
+  siteId: string;
+  period: RollupPeriod;
+  start: string; // YYYY-MM-DD: Monday of the ISO week or the 1st of the month
+  activeMinutes: number;
+  mediaMinutes?: number;
+  activeDays: number;
 }
 
 export interface Streak {
@@ -10,25 +35,41 @@ export interface Streak {
   length: number;
   lastDate: string;
   frozenDaysLeft?: number;
+  freezeWeek?: string; // ISO week (YYYY-Www) of the last weekly refill
+  frozenDates?: string[]; // days bridged by freezes during the current run
 }
 
 export interface Settings {
-  tz: string; // offset format +HH:MM
-  quietHours: Array<[number, number]>; // start-end in local hours
+  tz: string; // IANA zone name (Europe/Berlin) or legacy fixed offset +HH:MM
+  quietHours: QuietHoursRange[];
   notifications: boolean;
   audioEnabled: boolean;
+  audioVolume: number; // 0..1
   focusEntrySound: string | null;
+  focusEndingSound: string | null; // one minute left in a run
+  focusSuccessSound: string | null;
+  streakWarningSound: string | null;
   sessionLengthMinutes: number;
   focusPresets: number[]; // minutes
-  savedSites: string[];
   overlayTransparency: number; // 0..1
+  weeklyFreezes: number; // freeze allowance restored every ISO week
+  autoFreeze: boolean; // spend freezes automatically when a gap is detected
+  idleThresholdSeconds: number; // no input for this long counts as idle (chrome.idle and overlay)
+  pageTracking: boolean; // keep minutes per page, without query strings
+  snoozeMinutes: number; // how long "Snooze" on a streak warning holds it back
+  dailyRetentionDays: number; // older daily sessions are rolled up into weeks
+  weeklyRetentionWeeks: number; // older weekly roll-ups are merged into months
 }
 
+export type ActivityKind = 'input' | 'media';
+
 export interface ActivitySlot {
+  kind: ActivityKind;
   siteId: string;
   url: string;
   durationSec: number;
   timestamp: number; // epoch ms
+  confidence?: number; // 0..1 activity-quality score; absent means fully trusted
 }
 
 export interface FocusModeState {
@@ -37,7 +78,188 @@ export interface FocusModeState {
   durationMinutes: number;
 }
 
+export interface FocusPause {
+  startedAt: number;
+  endedAt: number;
+}
+
+/** Active focus run as kept in `chrome.storage.session` across worker suspensions. */
+export interface FocusRun extends FocusModeState {
+  endsAt: number; // moves forward with every finished pause and extension
+  endingNotified: boolean;
+  pausedAt: number | null;
+  pauses: FocusPause[];
+  extendedMinutes: number;
+  streakLength?: number; // the site's streak when the run started; missing in runs saved before it was kept
+}
+
+export type FocusRunOutcome = 'completed' | 'stopped';
+
+/** Finished focus run kept in the local history. */
+export interface FocusRunRecord {
+  siteId: string;
+  startedAt: number;
+  endedAt: number;
+  plannedMinutes: number;
+  extendedMinutes: number;
+  focusedMs: number;
+  outcome: FocusRunOutcome;
+  pauses: FocusPause[];
+}
+
+export type NotificationAction = 'start-focus' | 'extend-focus' | 'snooze';
+
+/** What a notification's body and buttons act on; `actions` are in button order. */
+export interface NotificationContext {
+  siteId: string;
+  actions: NotificationAction[];
+}
+
+// Low priority notifications only matter in the moment; the rest can wait out quiet hours.
+export type NotificationPriority = 'low' | 'normal' | 'high';
+
+export interface NotificationRequest extends NotificationContext {
+  id: string;
+  title: string;
+  message: string;
+  priority: NotificationPriority;
+}
+
+/** A notification held back by quiet hours until they end. */
+export interface QueuedNotification extends NotificationRequest {
+  queuedAt: number;
+  expiresAt: number; // epoch ms; dropped unseen after this
+}
+
+/** Current user state (overview section 9); transitions live in `src/service/userState.ts`. */
+export type UserState =
+  | { name: 'idle'; since: number }
+  | { name: 'prompt'; since: number; siteId: string }
+  | { name: 'focus'; since: number; run: FocusRun }
+  | { name: 'success'; since: number; record: FocusRunRecord; streakGrew: boolean }
+  | { name: 'warning'; since: number; siteId: string; goalMinutes: number }
+  | { name: 'frozen'; since: number; streak: Streak; bridgedDays: number; date: string };
+
+export interface QuietHoursRange {
+  start: number; // minutes after local midnight, 0..1439
+  end: number; // exclusive; smaller than start for overnight ranges
+  days: number[]; // weekdays the range starts on (0 = Sunday); empty = every day
+}
+
 export interface QuietHoursEvaluation {
   withinQuietHours: boolean;
-  activeRange: [number, number] | null;
+  activeRange: QuietHoursRange | null;
+  nextBoundary: number | null; // epoch ms when quiet hours next end (inside) or start (outside)
+}
+
+export const EXPORT_FORMAT = 'bychok-export';
+
+export interface UserData {
+  settings: Settings;
+  sessions: Session[];
+  rollups: SessionRollup[];
+  streaks: Streak[];
+  sites: Site[];
+}
+
+/** Everything a storage backend persists: user data plus worker bookkeeping (focus runs, warnings, held notifications). */
+export interface StoredRecords extends UserData {
+  focusHistory: FocusRunRecord[];
+  streakWarnings: StreakWarningLog;
+  notificationQueue: QueuedNotification[];
+  customSounds: CustomSound[];
+  soundPacks: SoundPack[];
+}
+
+/** Imported sounds and saved packs. They stay out of the repository because the sound data is large. */
+export type SoundRecords = Pick<StoredRecords, 'customSounds' | 'soundPacks'>;
+
+/** Streak day (`Streak.lastDate`) each site was last warned about, by site id. */
+export type StreakWarningLog = Record<string, string>;
+
+/** Inclusive date-key bounds; any field left out is unbounded. */
+export interface SessionQuery {
+  siteId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: UserData & SoundRecords;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+/** A short audio file the user imported, kept locally as a data URL. */
+export interface CustomSound {
+  id: string; // `custom:` prefix keeps it apart from bundled sound ids
+  name: string;
+  dataUrl: string;
+  durationSec: number;
+  sizeBytes: number;
+  addedAt: number;
+}
+
+export type CustomSoundInput = Pick<CustomSound, 'name' | 'dataUrl' | 'durationSec'>;
+
+/** What the popup lists; the audio itself stays in the worker. */
+export type CustomSoundInfo = Omit<CustomSound, 'dataUrl'>;
+
+/** A named choice of sound for every event; null mutes the event. */
+export interface SoundPack {
+  id: string;
+  name: string;
+  sounds: Pick<Settings, 'focusEntrySound' | 'focusEndingSound' | 'focusSuccessSound' | 'streakWarningSound'>;
+}
+
+export interface SoundLibrary {
+  sounds: CustomSoundInfo[];
+  packs: SoundPack[]; // bundled packs first
+}
+
+export interface StorageUsage {
+  bytesInUse: number;
+  quotaBytes: number;
+  sessions: number;
+  rollups: number;
+}
+
+export interface DailyTotal {
+  date: string;
+  activeMinutes: number;
+  goalsMet: number; // sites that reached their daily goal that day
+}
+
+export interface WeeklyTotal {
+  weekStart: string; // Monday of the ISO week
+  activeMinutes: number;
+}
+
+export interface SiteBreakdown {
+  siteId: string;
+  activeMinutes: number;
+  share: number; // 0..1 of all minutes in the window
+  goalHitRate: number; // 0..1 of days since the site first showed up in the window
+  topPages: PageTotal[];
+}
+
+export interface PageTotal {
+  page: string;
+  activeMinutes: number;
+}
+
+export interface StatsSummary {
+  today: string;
+  days: DailyTotal[]; // oldest first, days without activity included
+  weeks: WeeklyTotal[];
+  average7: number;
+  average30: number;
+  bestDay: DailyTotal | null;
+  sites: SiteBreakdown[];
+  goalHitRate: number; // 0..1 of window days on which at least one goal was reached
+  heatmap: number[][]; // minutes by weekday (Monday first) × local hour
+  quietHoursSuggestion: QuietHoursRange | null;
 }
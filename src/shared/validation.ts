@@ -0,0 +1,93 @@
+import { SOUND_SETTINGS } from './audio.js';
+import { DEFAULT_SETTINGS } from './defaults.js';
+import { isValidTimeZone } from './timezone.js';
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isQuietHoursRange(value: unknown): boolean {
+  const isMinute = (minute: unknown) => Number.isInteger(minute) && (minute as number) >= 0 && (minute as number) < 24 * 60;
+  return (
+    isRecord(value) &&
+    isMinute(value.start) &&
+    isMinute(value.end) &&
+    Array.isArray(value.days) &&
+    value.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  );
+}
+
+// chrome.idle.setDetectionInterval refuses anything below 15 seconds.
+export const IDLE_THRESHOLD_RANGE = { min: 15, max: 600 };
+
+// Keeps at least a month of day-level history for streaks and daily views.
+export const RETENTION_RANGES = {
+  dailyRetentionDays: { min: 35, max: 3650 },
+  weeklyRetentionWeeks: { min: 4, max: 520 }
+};
+
+// Long enough to matter, short enough to still rescue the day.
+export const SNOOZE_RANGE = { min: 5, max: 240 };
+
+// Session length, presets and focus runs; the popup's session length input uses it too.
+export const FOCUS_MINUTES_RANGE = { min: 1, max: 180 };
+
+// A freeze can cover at most every day of the week.
+export const WEEKLY_FREEZES_RANGE = { min: 0, max: 7 };
+
+export function isIdleThreshold(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= IDLE_THRESHOLD_RANGE.min && (value as number) <= IDLE_THRESHOLD_RANGE.max;
+}
+
+export function isFocusMinutes(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= FOCUS_MINUTES_RANGE.min && (value as number) <= FOCUS_MINUTES_RANGE.max;
+}
+
+/**
+ * Checks one `Settings` field against the shape of `DEFAULT_SETTINGS`.
+ * Returns a human-readable problem or null when the value is acceptable.
+ */
+export function settingsFieldProblem(key: string, value: unknown): string | null {
+  if (!(key in DEFAULT_SETTINGS)) {
+    return 'неизвестное поле';
+  }
+  if ((SOUND_SETTINGS as readonly string[]).includes(key) && value === null) {
+    return null;
+  }
+  const fallback = (DEFAULT_SETTINGS as unknown as Record<string, unknown>)[key];
+  const sameKind = Array.isArray(fallback) ? Array.isArray(value) : typeof value === typeof fallback;
+  if (!sameKind) {
+    return 'неверный тип';
+  }
+  if (key === 'tz' && !isValidTimeZone(value as string)) {
+    return 'неизвестный часовой пояс';
+  }
+  if (key === 'quietHours' && !(value as unknown[]).every(isQuietHoursRange)) {
+    return 'некорректные интервалы';
+  }
+  if (key === 'idleThresholdSeconds' && !isIdleThreshold(value)) {
+    return `от ${IDLE_THRESHOLD_RANGE.min} до ${IDLE_THRESHOLD_RANGE.max} секунд`;
+  }
+  if ((key === 'audioVolume' || key === 'overlayTransparency') && !((value as number) >= 0 && (value as number) <= 1)) {
+    return 'от 0 до 1';
+  }
+  if (key === 'snoozeMinutes') {
+    const { min, max } = SNOOZE_RANGE;
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? null : `от ${min} до ${max} минут`;
+  }
+  if (key === 'dailyRetentionDays' || key === 'weeklyRetentionWeeks') {
+    const { min, max } = RETENTION_RANGES[key];
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? null : `от ${min} до ${max}`;
+  }
+  if (key === 'sessionLengthMinutes' && !isFocusMinutes(value)) {
+    return `целое число от ${FOCUS_MINUTES_RANGE.min} до ${FOCUS_MINUTES_RANGE.max}`;
+  }
+  if (key === 'focusPresets' && !(value as unknown[]).every(isFocusMinutes)) {
+    return `целые числа от ${FOCUS_MINUTES_RANGE.min} до ${FOCUS_MINUTES_RANGE.max}`;
+  }
+  if (key === 'weeklyFreezes') {
+    const { min, max } = WEEKLY_FREEZES_RANGE;
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? null : `целое число от ${min} до ${max}`;
+  }
+  return null;
+}
@@ -1,21 +1,34 @@
 import { describe, expect, it } from 'vitest';
 import { mergeActivitySlot, evaluateQuietHours, ensureStreakProgress, shouldWarnStreakExpiry } from '../src/service/activity.js';
+import { createSite } from '../src/shared/sites.js';
 import { ActivitySlot, Session, Settings, Streak } from '../src/shared/types.js';
 
 const SETTINGS: Settings = {
   tz: '+00:00',
-  quietHours: [[22, 7]],
+  quietHours: [{ start: 22 * 60, end: 7 * 60, days: [] }],
   notifications: true,
   audioEnabled: true,
+  audioVolume: 0.8,
   focusEntrySound: 'chime-soft',
+  focusEndingSound: 'chime-soft',
+  focusSuccessSound: 'pulse-air',
+  streakWarningSound: 'pulse-air',
   sessionLengthMinutes: 5,
   focusPresets: [5, 15, 25, 45],
-  overlayTransparency: 0.8
+  overlayTransparency: 0.8,
+  weeklyFreezes: 1,
+  autoFreeze: true,
+  idleThresholdSeconds: 60,
+  pageTracking: false,
+  snoozeMinutes: 30,
+  dailyRetentionDays: 90,
+  weeklyRetentionWeeks: 52
 };
 
 describe('mergeActivitySlot', () => {
   it('creates a new session and streak when none exist', () => {
     const slot: ActivitySlot = {
+      kind: 'input',
       siteId: 'example.com',
       url: 'https://example.com',
       durationSec: 600,
@@ -30,6 +43,7 @@ describe('mergeActivitySlot', () => {
 
   it('accumulates minutes in existing session', () => {
     const slot: ActivitySlot = {
+      kind: 'input',
       siteId: 'example.com',
       url: 'https://example.com',
       durationSec: 300,
@@ -45,6 +59,43 @@ describe('mergeActivitySlot', () => {
     const result = mergeActivitySlot(slot, { sessions: [session], streaks: [streak] }, SETTINGS);
     expect(result.sessions[0].activeMinutes).toBeCloseTo(11, 5);
   });
+
+  it('keys sessions by the matching site and uses its daily goal', () => {
+    const problems = createSite({ pattern: 'leetcode.com', pathPrefix: '/problems' }, { dailyGoalMin: 15 });
+    const slot: ActivitySlot = {
+      kind: 'input',
+      siteId: 'leetcode.com',
+      url: 'https://leetcode.com/problems/two-sum/',
+      durationSec: 600,
+      timestamp: Date.UTC(2023, 0, 1, 12, 0, 0)
+    };
+    const first = mergeActivitySlot(slot, { sessions: [], streaks: [], sites: [problems] }, SETTINGS);
+    expect(first.sessions[0].id).toBe('leetcode.com/problems:2023-01-01');
+    expect(first.streaks).toHaveLength(0);
+
+    const second = mergeActivitySlot({ ...slot, timestamp: slot.timestamp + 600_000 }, first, SETTINGS);
+    expect(second.sessions[0].activeMinutes).toBeCloseTo(20, 5);
+    expect(second.streaks[0]).toMatchObject({ siteId: 'leetcode.com/problems', length: 1 });
+  });
+
+  it('fills hourly buckets by local hour in the user zone', () => {
+    const slot: ActivitySlot = {
+      kind: 'input',
+      siteId: 'example.com',
+      url: 'https://example.com',
+      durationSec: 60,
+      timestamp: Date.UTC(2023, 0, 1, 5, 30, 0)
+    };
+    const settings = { ...SETTINGS, tz: 'Asia/Yekaterinburg' }; // UTC+5
+    const first = mergeActivitySlot(slot, { sessions: [], streaks: [] }, settings);
+    const second = mergeActivitySlot({ ...slot, timestamp: slot.timestamp + 40 * 60_000 }, first, settings);
+
+    const hourly = second.sessions[0].hourlyMinutes;
+    expect(hourly).toHaveLength(24);
+    expect(hourly?.[10]).toBe(1);
+    expect(hourly?.[11]).toBe(1);
+    expect(hourly?.reduce((sum, minutes) => sum + minutes, 0)).toBe(second.sessions[0].activeMinutes);
+  });
 });
 
 describe('ensureStreakProgress', () => {
@@ -72,20 +123,21 @@ describe('evaluateQuietHours', () => {
     const date = new Date('2023-05-01T23:00:00Z');
     const result = evaluateQuietHours(SETTINGS, date);
     expect(result.withinQuietHours).toBe(true);
-    expect(result.activeRange).toEqual([22, 7]);
+    expect(result.activeRange).toEqual({ start: 22 * 60, end: 7 * 60, days: [] });
+    expect(result.nextBoundary).toBe(Date.parse('2023-05-02T07:00:00Z'));
   });
 });
 
 describe('shouldWarnStreakExpiry', () => {
-  it('warns after 21 hours since last activity when notifications enabled', () => {
+  it('warns on the evening of the day after the last activity when notifications enabled', () => {
     const streak: Streak = { siteId: 'example.com', length: 5, lastDate: '2023-01-01' };
-    const now = new Date('2023-01-02T00:30:00Z');
-    expect(shouldWarnStreakExpiry(streak, now, SETTINGS)).toBe(true);
+    expect(shouldWarnStreakExpiry(streak, new Date('2023-01-01T21:30:00Z'), SETTINGS)).toBe(false);
+    expect(shouldWarnStreakExpiry(streak, new Date('2023-01-02T21:30:00Z'), SETTINGS)).toBe(true);
   });
 
   it('does not warn when notifications disabled', () => {
     const streak: Streak = { siteId: 'example.com', length: 5, lastDate: '2023-01-01' };
-    const now = new Date('2023-01-02T00:30:00Z');
+    const now = new Date('2023-01-02T21:30:00Z');
     expect(shouldWarnStreakExpiry(streak, now, { ...SETTINGS, notifications: false })).toBe(false);
   });
 });
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { mergeActivitySlot } from '../src/service/activity.js';
+import {
+  ActivitySample,
+  creditedSlotSeconds,
+  MIN_SLOT_CONFIDENCE,
+  scoreActivitySamples
+} from '../src/service/activityQuality.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { parseRuntimeRequest } from '../src/shared/messages.js';
+
+const START = Date.UTC(2024, 2, 1, 12, 0, 0);
+
+function every(intervalMs: number, count: number, build: (index: number) => Partial<ActivitySample>): ActivitySample[] {
+  return Array.from({ length: count }, (_, index) => ({
+    kind: 'pointermove',
+    at: START + index * intervalMs,
+    trusted: true,
+    ...build(index)
+  }));
+}
+
+describe('scoreActivitySamples', () => {
+  it('keeps varied human input at full confidence', () => {
+    const typing = every(180, 12, (index) => ({
+      kind: 'keydown',
+      at: START + index * 180 + (index % 3) * 47,
+      key: `Key${'ABCDEF'[index % 6]}`
+    }));
+    const moves = every(90, 10, (index) => ({ x: 100 + index * 13, y: 200 + (index % 4) * 21, at: START + index * (70 + index * 9) }));
+    expect(scoreActivitySamples([...typing, ...moves, { kind: 'pointerdown', at: START, trusted: true }])).toEqual({
+      confidence: 1,
+      flags: []
+    });
+  });
+
+  it('discards untrusted events', () => {
+    const synthetic = every(500, 10, (index) => ({ kind: 'keydown', key: `Key${index}`, trusted: false }));
+    expect(scoreActivitySamples(synthetic)).toEqual({ confidence: 0, flags: ['untrusted'] });
+  });
+
+  it('detects a held key', () => {
+    const held = every(33, 20, (index) => ({ kind: 'keydown', key: 'KeyJ', repeat: index > 0 }));
+    const quality = scoreActivitySamples(held);
+    expect(quality.flags).toEqual(['key-repeat']);
+    expect(quality.confidence).toBeGreaterThanOrEqual(MIN_SLOT_CONFIDENCE);
+    expect(quality.confidence).toBeLessThan(1);
+  });
+
+  it('detects a mouse jiggler', () => {
+    const jiggle = every(1_000, 12, (index) => ({ x: 400 + (index % 2), y: 300 }));
+    const quality = scoreActivitySamples(jiggle);
+    expect(quality.flags).toEqual(['mouse-jiggler']);
+    expect(quality.confidence).toBeLessThan(MIN_SLOT_CONFIDENCE);
+  });
+
+  it('detects an auto-scroller', () => {
+    const scroller = every(250, 30, () => ({ kind: 'wheel', delta: 40 }));
+    expect(scoreActivitySamples(scroller).flags).toEqual(['auto-scroll']);
+  });
+
+  it('keeps a natural mouse path sampled at 60 Hz', () => {
+    const path = every(1000 / 60, 120, (index) => ({ x: 200 + index * 4 + Math.sin(index / 6) * 30, y: 300 + Math.cos(index / 9) * 45 }));
+    expect(scoreActivitySamples(path)).toEqual({ confidence: 1, flags: [] });
+  });
+
+  it('keeps trackpad scrolling sampled at 60 Hz', () => {
+    // A swipe ramps up and then coasts down with momentum, one wheel event per frame.
+    const swipe = every(1000 / 60, 60, (index) => ({ kind: 'wheel', delta: Math.max(1, Math.round(index < 6 ? 8 * (index + 1) : 48 * 0.93 ** (index - 5))) }));
+    expect(scoreActivitySamples(swipe)).toEqual({ confidence: 1, flags: [] });
+  });
+
+  it('does not flag genuine reading with uneven scrolling', () => {
+    const reading = every(0, 10, (index) => ({ kind: 'wheel', delta: [120, 80, 240, -40, 160][index % 5], at: START + index * index * 137 }));
+    expect(scoreActivitySamples(reading).confidence).toBe(1);
+  });
+});
+
+describe('slot confidence', () => {
+  it('discounts suspicious slots in the aggregator', () => {
+    const slot = { kind: 'input' as const, siteId: 'leetcode.com', url: 'https://leetcode.com/', durationSec: 12, timestamp: START };
+    const settings = { ...DEFAULT_SETTINGS, tz: 'UTC' };
+    const minutes = (confidence?: number) =>
+      mergeActivitySlot({ ...slot, confidence }, { sessions: [], streaks: [] }, settings).sessions[0].activeMinutes;
+
+    expect(minutes()).toBe(0.2);
+    expect(minutes(0.5)).toBe(0.1);
+    expect(minutes(0.1)).toBe(0);
+    expect(creditedSlotSeconds(12, MIN_SLOT_CONFIDENCE - 0.01)).toBe(0);
+  });
+
+  it('rejects confidence outside 0..1', () => {
+    const payload = { kind: 'input', siteId: 'leetcode.com', url: 'https://leetcode.com/', durationSec: 12, timestamp: START };
+    expect(parseRuntimeRequest({ type: 'activity-slot', payload: { ...payload, confidence: 0.4 } })).toMatchObject({ ok: true });
+    expect(parseRuntimeRequest({ type: 'activity-slot', payload: { ...payload, confidence: 1.5 } })).toMatchObject({ ok: false });
+  });
+});
@@ -56,4 +56,29 @@ describe('shared audio message handler', () => {
     handlePlaySoundMessage({ type: 'play-sound', payload: {} });
     expect(playSpy).not.toHaveBeenCalled();
   });
+
+  it('applies the volume and reports whether playback started', async () => {
+    const created: { volume: number }[] = [];
+    let rejectPlay = false;
+
+    class FakeAudio {
+      public volume = 1;
+      constructor() {
+        created.push(this);
+      }
+
+      play = () => (rejectPlay ? Promise.reject(new Error('NotAllowedError')) : Promise.resolve());
+    }
+
+    // @ts-expect-error Allow assigning test double
+    globalThis.Audio = FakeAudio;
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(handlePlaySoundMessage({ type: 'play-sound', payload: { url: 'a.mp3', volume: 0.4 } })).resolves.toBe(true);
+    await expect(handlePlaySoundMessage({ type: 'play-sound', payload: { url: 'a.mp3', volume: 3 } })).resolves.toBe(true);
+    expect(created.map((audio) => audio.volume)).toEqual([0.4, 1]);
+
+    rejectPlay = true;
+    await expect(handlePlaySoundMessage({ type: 'play-sound', payload: { url: 'a.mp3' } })).resolves.toBe(false);
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { CURRENT_SCHEMA_VERSION } from '../src/shared/migrations.js';
+import { createSite } from '../src/shared/sites.js';
+import {
+  createExportDocument,
+  importSoundRecords,
+  importUserData,
+  UserData,
+  validateExportDocument
+} from '../src/service/transfer.js';
+import { CustomSound, SoundRecords } from '../src/shared/types.js';
+
+const CURRENT: UserData = {
+  settings: { ...DEFAULT_SETTINGS, sessionLengthMinutes: 10 },
+  sessions: [
+    { id: 'leetcode.com:2023-01-01', siteId: 'leetcode.com', date: '2023-01-01', activeMinutes: 3 },
+    { id: 'leetcode.com:2023-01-02', siteId: 'leetcode.com', date: '2023-01-02', activeMinutes: 6 }
+  ],
+  rollups: [],
+  streaks: [],
+  sites: [createSite({ pattern: 'leetcode.com', pathPrefix: null }, { dailyGoalMin: 5 })]
+};
+
+const BEEP: CustomSound = {
+  id: 'custom:beep',
+  name: 'Бип',
+  dataUrl: 'data:audio/wav;base64,UklGRiQAAABXQVZF',
+  durationSec: 1.5,
+  sizeBytes: 12,
+  addedAt: 1
+};
+const SOUNDS: SoundRecords = {
+  customSounds: [BEEP],
+  soundPacks: [
+    {
+      id: 'pack:evening',
+      name: 'Вечер',
+      sounds: { focusEntrySound: BEEP.id, focusEndingSound: null, focusSuccessSound: 'pulse-air', streakWarningSound: null }
+    }
+  ]
+};
+
+describe('validateExportDocument', () => {
+  it('round-trips an export', () => {
+    const document = createExportDocument({ ...CURRENT, ...SOUNDS }, new Date('2023-02-01T00:00:00Z'));
+    const result = validateExportDocument(JSON.parse(JSON.stringify(document)));
+    expect(result.ok).toBe(true);
+    expect(result.warnings).toEqual([]);
+    expect(result.document?.data).toEqual({ ...CURRENT, ...SOUNDS });
+  });
+
+  it('skips imported sounds that break the limits', () => {
+    const result = validateExportDocument({
+      format: 'bychok-export',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: { customSounds: [{ ...BEEP, durationSec: 30 }, { ...BEEP, id: 'chime-soft' }] }
+    });
+    expect(result.document?.data.customSounds).toEqual([]);
+    expect(result.warnings).toEqual([
+      'customSounds[0]: Звук длиннее 8 секунд, запись пропущена',
+      'customSounds[1]: id должен начинаться с custom:, запись пропущена'
+    ]);
+  });
+
+  it('rejects foreign or newer documents', () => {
+    expect(validateExportDocument([]).ok).toBe(false);
+    expect(validateExportDocument({ format: 'other', schemaVersion: 1, data: {} }).ok).toBe(false);
+    const newer = validateExportDocument({ format: 'bychok-export', schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: {} });
+    expect(newer.ok).toBe(false);
+    expect(newer.errors[0]).toContain('более новой версией');
+  });
+
+  it('skips invalid records and reports them', () => {
+    const result = validateExportDocument({
+      format: 'bychok-export',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: {
+        settings: { tz: '+01:00', notifications: 'yes', pip: true },
+        sessions: [
+          { id: 'a:2023-01-01', siteId: 'a', date: '2023-01-01', activeMinutes: 4 },
+          { id: 'b', siteId: 'b', date: '2023-01-01', activeMinutes: -1 }
+        ]
+      }
+    });
+    expect(result.ok).toBe(true);
+    expect(result.document?.data.sessions).toHaveLength(1);
+    expect(result.document?.data.settings.tz).toBe('+01:00');
+    expect(result.document?.data.settings.notifications).toBe(true);
+    expect(result.warnings).toHaveLength(3);
+  });
+
+  it('migrates documents exported with an older schema', () => {
+    const result = validateExportDocument({
+      format: 'bychok-export',
+      schemaVersion: 1,
+      data: { settings: { savedSites: ['docs.python.org'] } }
+    });
+    expect(result.document?.data.sites.map((site) => site.id)).toEqual(['docs.python.org']);
+  });
+});
+
+describe('importUserData', () => {
+  const incoming: UserData = {
+    settings: { ...DEFAULT_SETTINGS, sessionLengthMinutes: 25 },
+    sessions: [
+      { id: 'leetcode.com:2023-01-01', siteId: 'leetcode.com', date: '2023-01-01', activeMinutes: 4 },
+      { id: 'leetcode.com:2023-01-03', siteId: 'leetcode.com', date: '2023-01-03', activeMinutes: 5 }
+    ],
+    rollups: [],
+    streaks: [{ siteId: 'leetcode.com', length: 40, lastDate: '2023-01-03' }],
+    sites: [
+      createSite({ pattern: 'leetcode.com', pathPrefix: null }, { dailyGoalMin: 30 }),
+      createSite({ pattern: 'docs.python.org', pathPrefix: null })
+    ]
+  };
+
+  it('replaces everything in replace mode', () => {
+    expect(importUserData(CURRENT, incoming, 'replace')).toEqual(incoming);
+  });
+
+  it('sums minutes per session id and merges streak records in merge mode', () => {
+    const merged = importUserData(CURRENT, incoming, 'merge');
+    expect(merged.settings).toBe(CURRENT.settings);
+    expect(merged.sessions.find((session) => session.id === 'leetcode.com:2023-01-01')?.activeMinutes).toBe(7);
+    expect(merged.sessions).toHaveLength(3);
+    expect(merged.sites.map((site) => site.id)).toEqual(['leetcode.com', 'docs.python.org']);
+    expect(merged.sites[0].dailyGoalMin).toBe(5);
+    expect(merged.streaks).toEqual([{ siteId: 'leetcode.com', length: 40, lastDate: '2023-01-03' }]);
+  });
+
+  it('joins overlapping streaks and keeps the freeze state of the later one', () => {
+    const current: UserData = {
+      ...CURRENT,
+      streaks: [{ siteId: 'leetcode.com', length: 3, lastDate: '2023-01-05', frozenDaysLeft: 0, frozenDates: ['2023-01-04'] }]
+    };
+    const merged = importUserData(current, incoming, 'merge');
+    expect(merged.streaks).toEqual([
+      { siteId: 'leetcode.com', length: 42, lastDate: '2023-01-05', frozenDaysLeft: 0, frozenDates: ['2023-01-04'] }
+    ]);
+  });
+
+  it('keeps the more recent streak when the runs do not touch', () => {
+    const current: UserData = {
+      ...CURRENT,
+      streaks: [{ siteId: 'leetcode.com', length: 2, lastDate: '2023-01-10', frozenDaysLeft: 1 }]
+    };
+    expect(importUserData(current, incoming, 'merge').streaks).toEqual(current.streaks);
+    expect(importUserData(CURRENT, { ...incoming, sessions: [], streaks: [] }, 'merge').streaks).toEqual([]);
+  });
+
+  it('extends a streak with a day that only meets the goal once both sides are added', () => {
+    const day = { id: 'leetcode.com:2023-01-03', siteId: 'leetcode.com', date: '2023-01-03' };
+    const current: UserData = {
+      ...CURRENT,
+      sessions: [...CURRENT.sessions, { ...day, activeMinutes: 2 }],
+      streaks: [{ siteId: 'leetcode.com', length: 2, lastDate: '2023-01-02' }]
+    };
+    const merged = importUserData(current, { ...incoming, sessions: [{ ...day, activeMinutes: 4 }], streaks: [] }, 'merge');
+    expect(merged.streaks).toMatchObject([{ siteId: 'leetcode.com', length: 3, lastDate: '2023-01-03' }]);
+  });
+});
+
+describe('importSoundRecords', () => {
+  const other: CustomSound = { ...BEEP, id: 'custom:other', name: 'Другой' };
+
+  it('takes the imported library in replace mode and adds new entries in merge mode', () => {
+    const current: SoundRecords = { customSounds: [other], soundPacks: [] };
+    expect(importSoundRecords(current, SOUNDS, 'replace')).toEqual(SOUNDS);
+    expect(importSoundRecords(current, SOUNDS, 'merge')).toEqual({
+      customSounds: [other, BEEP],
+      soundPacks: SOUNDS.soundPacks
+    });
+    expect(importSoundRecords(SOUNDS, { customSounds: [{ ...BEEP, name: 'Копия' }], soundPacks: [] }, 'merge')).toEqual(SOUNDS);
+  });
+
+  it('points packs at bundled sounds when their imported sound is missing', () => {
+    const imported = importSoundRecords({ customSounds: [], soundPacks: [] }, { ...SOUNDS, customSounds: [] }, 'replace');
+    expect(imported.soundPacks[0].sounds).toEqual({ ...SOUNDS.soundPacks[0].sounds, focusEntrySound: 'chime-soft' });
+  });
+});
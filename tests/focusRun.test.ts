@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  appendFocusHistory,
+  createFocusRun,
+  extendFocusRun,
+  finishFocusRun,
+  FOCUS_ALARMS,
+  FOCUS_HISTORY_LIMIT,
+  focusRemainingMs,
+  isFocusRunOver,
+  pauseFocusRun,
+  planFocusAlarms,
+  resumeFocusRun
+} from '../src/service/focus.js';
+import { loadUserState, saveUserState } from '../src/shared/storage.js';
+
+const STARTED_AT = Date.parse('2024-03-01T10:00:00Z');
+
+describe('planFocusAlarms', () => {
+  const run = createFocusRun({ siteId: 'leetcode.com', startedAt: STARTED_AT, durationMinutes: 5 });
+
+  it('schedules the one-minute warning and the end', () => {
+    expect(run.endsAt).toBe(STARTED_AT + 5 * 60_000);
+    expect(planFocusAlarms(run, STARTED_AT)).toEqual([
+      { name: FOCUS_ALARMS.warning, when: STARTED_AT + 4 * 60_000 },
+      { name: FOCUS_ALARMS.end, when: STARTED_AT + 5 * 60_000 }
+    ]);
+  });
+
+  it('drops the warning once it was shown or its time has passed', () => {
+    expect(planFocusAlarms({ ...run, endingNotified: true }, STARTED_AT).map((alarm) => alarm.name)).toEqual([
+      FOCUS_ALARMS.end
+    ]);
+    expect(planFocusAlarms(run, STARTED_AT + 4.5 * 60_000).map((alarm) => alarm.name)).toEqual([FOCUS_ALARMS.end]);
+  });
+
+  it('skips the warning for runs no longer than the lead time', () => {
+    const short = createFocusRun({ siteId: 'leetcode.com', startedAt: STARTED_AT, durationMinutes: 1 });
+    expect(planFocusAlarms(short, STARTED_AT).map((alarm) => alarm.name)).toEqual([FOCUS_ALARMS.end]);
+  });
+
+  it('ends a run restored after its end time right away', () => {
+    const now = STARTED_AT + 10 * 60_000;
+    expect(isFocusRunOver(run, now)).toBe(true);
+    expect(planFocusAlarms(run, now)).toEqual([{ name: FOCUS_ALARMS.end, when: now }]);
+  });
+});
+
+describe('focus run lifecycle', () => {
+  const MINUTE = 60_000;
+  const run = createFocusRun({ siteId: 'leetcode.com', startedAt: STARTED_AT, durationMinutes: 5 });
+
+  it('excludes paused time from the countdown and moves the end', () => {
+    const paused = pauseFocusRun(run, STARTED_AT + 2 * MINUTE);
+    expect(planFocusAlarms(paused, STARTED_AT + 2 * MINUTE)).toEqual([]);
+    expect(focusRemainingMs(paused, STARTED_AT + 10 * MINUTE)).toBe(3 * MINUTE);
+    expect(isFocusRunOver(paused, STARTED_AT + 10 * MINUTE)).toBe(false);
+
+    const resumed = resumeFocusRun(paused, STARTED_AT + 4 * MINUTE);
+    expect(resumed.endsAt).toBe(STARTED_AT + 7 * MINUTE);
+    expect(resumed.pauses).toEqual([{ startedAt: STARTED_AT + 2 * MINUTE, endedAt: STARTED_AT + 4 * MINUTE }]);
+    expect(focusRemainingMs(resumed, STARTED_AT + 4 * MINUTE)).toBe(3 * MINUTE);
+  });
+
+  it('ignores repeated pause and resume calls', () => {
+    const paused = pauseFocusRun(run, STARTED_AT + MINUTE);
+    expect(pauseFocusRun(paused, STARTED_AT + 2 * MINUTE)).toBe(paused);
+    expect(resumeFocusRun(run, STARTED_AT + MINUTE)).toBe(run);
+  });
+
+  it('extends the run and re-arms the one-minute warning', () => {
+    const warned = { ...run, endingNotified: true };
+    const extended = extendFocusRun(warned, 5, STARTED_AT + 4.5 * MINUTE);
+    expect(extended.durationMinutes).toBe(10);
+    expect(extended.extendedMinutes).toBe(5);
+    expect(extended.endsAt).toBe(STARTED_AT + 10 * MINUTE);
+    expect(extended.endingNotified).toBe(false);
+    expect(planFocusAlarms(extended, STARTED_AT + 4.5 * MINUTE)[0]).toEqual({
+      name: FOCUS_ALARMS.warning,
+      when: STARTED_AT + 9 * MINUTE
+    });
+  });
+
+  it('records completed runs with pauses and focused time', () => {
+    const withPause = resumeFocusRun(pauseFocusRun(run, STARTED_AT + MINUTE), STARTED_AT + 3 * MINUTE);
+    const record = finishFocusRun(extendFocusRun(withPause, 5, STARTED_AT + 4 * MINUTE), 'completed', STARTED_AT + 13 * MINUTE);
+    expect(record).toEqual({
+      siteId: 'leetcode.com',
+      startedAt: STARTED_AT,
+      endedAt: STARTED_AT + 12 * MINUTE,
+      plannedMinutes: 5,
+      extendedMinutes: 5,
+      focusedMs: 10 * MINUTE,
+      outcome: 'completed',
+      pauses: [{ startedAt: STARTED_AT + MINUTE, endedAt: STARTED_AT + 3 * MINUTE }]
+    });
+  });
+
+  it('closes an open pause when a paused run is stopped', () => {
+    const record = finishFocusRun(pauseFocusRun(run, STARTED_AT + 2 * MINUTE), 'stopped', STARTED_AT + 3 * MINUTE);
+    expect(record.outcome).toBe('stopped');
+    expect(record.focusedMs).toBe(2 * MINUTE);
+    expect(record.pauses).toEqual([{ startedAt: STARTED_AT + 2 * MINUTE, endedAt: STARTED_AT + 3 * MINUTE }]);
+  });
+
+  it('keeps only the most recent history entries', () => {
+    const record = finishFocusRun(run, 'completed', STARTED_AT + 5 * MINUTE);
+    const full = Array.from({ length: FOCUS_HISTORY_LIMIT }, (_, index) => ({ ...record, startedAt: index }));
+    const next = appendFocusHistory(full, record);
+    expect(next).toHaveLength(FOCUS_HISTORY_LIMIT);
+    expect(next[next.length - 1]).toBe(record);
+    expect(next[0].startedAt).toBe(1);
+  });
+});
+
+describe('focus run persistence', () => {
+  afterEach(() => {
+    // @ts-expect-error cleanup test double
+    delete globalThis.chrome;
+  });
+
+  it('keeps the active run in session storage as part of the user state', async () => {
+    let data: Record<string, unknown> = {};
+    const session = {
+      async get(key: string) {
+        return key in data ? { [key]: structuredClone(data[key]) } : {};
+      },
+      async set(items: Record<string, unknown>) {
+        data = { ...data, ...structuredClone(items) };
+      }
+    };
+    // @ts-expect-error minimal chrome stub for session storage
+    globalThis.chrome = { storage: { session } };
+
+    expect(await loadUserState()).toBeNull();
+    const run = createFocusRun({ siteId: 'leetcode.com', startedAt: STARTED_AT, durationMinutes: 25 });
+    await saveUserState({ name: 'focus', since: STARTED_AT, run });
+    expect(await loadUserState()).toEqual({ name: 'focus', since: STARTED_AT, run });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { isSlotKindAllowed, mergeActivitySlot } from '../src/service/activity.js';
+import { applySystemIdle } from '../src/service/idle.js';
+import { importUserData } from '../src/service/transfer.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { applyMigrations } from '../src/shared/migrations.js';
+import { createSite } from '../src/shared/sites.js';
+import { ActivitySlot, Settings } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'UTC' };
+const NOW = Date.UTC(2024, 2, 1, 12, 0, 0);
+const COURSE = createSite({ pattern: 'coursera.org', pathPrefix: null }, { mediaTracking: true });
+const LEETCODE = createSite({ pattern: 'leetcode.com', pathPrefix: null });
+
+function slot(kind: ActivitySlot['kind'], url: string, timestamp = NOW): ActivitySlot {
+  return { kind, siteId: new URL(url).hostname, url, durationSec: 12, timestamp };
+}
+
+describe('media slots', () => {
+  it('are accepted only on sites that opted in', () => {
+    const sites = [COURSE, LEETCODE];
+    expect(isSlotKindAllowed(slot('media', 'https://coursera.org/learn/ml'), sites)).toBe(true);
+    expect(isSlotKindAllowed(slot('media', 'https://leetcode.com/explore'), sites)).toBe(false);
+    expect(isSlotKindAllowed(slot('media', 'https://youtube.com/watch'), sites)).toBe(false);
+    expect(isSlotKindAllowed(slot('input', 'https://leetcode.com/explore'), sites)).toBe(true);
+  });
+
+  it('count toward active time and are tracked separately', () => {
+    const data = { sessions: [], streaks: [], sites: [COURSE] };
+    const afterInput = mergeActivitySlot(slot('input', 'https://coursera.org/learn/ml'), data, SETTINGS);
+    expect(afterInput.sessions[0]).not.toHaveProperty('mediaMinutes');
+
+    const afterMedia = mergeActivitySlot(slot('media', 'https://coursera.org/learn/ml', NOW + 12_000), afterInput, SETTINGS);
+    expect(afterMedia.sessions[0]).toMatchObject({ activeMinutes: 0.4, mediaMinutes: 0.2 });
+  });
+
+  it('survive system idle but not a locked screen', () => {
+    const media = slot('media', 'https://coursera.org/learn/ml');
+    expect(applySystemIdle(media, 'idle', [{ state: 'idle', at: NOW - 30_000 }], 60)).toBe(media);
+    expect(applySystemIdle(media, 'locked', [], 60)).toBeNull();
+    expect(applySystemIdle(slot('input', 'https://coursera.org/learn/ml'), 'idle', [], 60)).toBeNull();
+  });
+
+  it('keep media minutes when imports are merged', () => {
+    const session = { id: 'coursera.org:2024-03-01', siteId: 'coursera.org', date: '2024-03-01', activeMinutes: 10, mediaMinutes: 6 };
+    const merged = importUserData(
+      { settings: SETTINGS, sessions: [session], rollups: [], streaks: [], sites: [COURSE] },
+      { settings: SETTINGS, sessions: [{ ...session, activeMinutes: 4, mediaMinutes: 4 }], rollups: [], streaks: [], sites: [] },
+      'merge'
+    );
+    expect(merged.sessions[0]).toMatchObject({ activeMinutes: 14, mediaMinutes: 10 });
+  });
+});
+
+describe('media tracking opt-in migration', () => {
+  it('adds the opt-in to stored sites, off by default', () => {
+    const outcome = applyMigrations(
+      { sites: [{ id: 'leetcode.com', pattern: 'leetcode.com', pathPrefix: null, dailyGoalMin: 5, overlayEnabled: true }] },
+      4
+    );
+    expect(outcome.applied).toEqual([5]);
+    expect(outcome.data.sites).toEqual([
+      { id: 'leetcode.com', pattern: 'leetcode.com', pathPrefix: null, dailyGoalMin: 5, overlayEnabled: true, mediaTracking: false }
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createFocusRun, finishFocusRun } from '../src/service/focus.js';
+import {
+  notificationButtonTitle,
+  siteLandingUrl,
+  snoozeAlarmName,
+  snoozedSiteId
+} from '../src/service/notifications.js';
+import { createIdleState, transitionUserState, UserState } from '../src/service/userState.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { createSite } from '../src/shared/sites.js';
+import { settingsFieldProblem } from '../src/shared/validation.js';
+
+const NOW = Date.parse('2024-03-01T10:00:00Z');
+const RUN = createFocusRun({ siteId: 'leetcode.com', startedAt: NOW, durationMinutes: 5 });
+
+describe('notification actions', () => {
+  it('offers start and snooze on a streak warning, naming the site', () => {
+    const { effects } = transitionUserState(
+      createIdleState(NOW),
+      { type: 'streakExpireSoon', siteId: 'leetcode.com', goalMinutes: 5 },
+      NOW
+    );
+    expect(effects).toContainEqual(
+      expect.objectContaining({ kind: 'notification', siteId: 'leetcode.com', actions: ['start-focus', 'snooze'] })
+    );
+  });
+
+  it('offers an extension before the end and a new run after it', () => {
+    const focus: UserState = { name: 'focus', since: NOW, run: RUN };
+    expect(transitionUserState(focus, { type: 'runEnding' }, NOW).effects).toContainEqual(
+      expect.objectContaining({ id: 'focus-ending', siteId: 'leetcode.com', actions: ['extend-focus'] })
+    );
+    const done = transitionUserState(focus, { type: 'goalReached', record: finishFocusRun(RUN, 'completed', RUN.endsAt), streakGrew: true }, NOW);
+    expect(done.effects).toContainEqual(expect.objectContaining({ id: 'focus-complete', actions: ['start-focus'] }));
+  });
+
+  it('returns a snoozed warning to Idle for that site only', () => {
+    const warning: UserState = { name: 'warning', since: NOW, siteId: 'leetcode.com', goalMinutes: 5 };
+    expect(transitionUserState(warning, { type: 'snooze', siteId: 'leetcode.com' }, NOW)).toEqual({
+      state: createIdleState(NOW),
+      effects: [],
+      changed: true
+    });
+    expect(transitionUserState(warning, { type: 'snooze', siteId: 'coursera.org' }, NOW).changed).toBe(false);
+    expect(transitionUserState(createIdleState(NOW), { type: 'snooze', siteId: 'leetcode.com' }, NOW).changed).toBe(false);
+  });
+
+  it('labels buttons with the configured snooze interval', () => {
+    const settings = { ...DEFAULT_SETTINGS, snoozeMinutes: 60 };
+    expect(notificationButtonTitle('start-focus', settings)).toBe('Старт 5 мин');
+    expect(notificationButtonTitle('snooze', settings)).toBe('Напомнить через 60 мин');
+    expect(notificationButtonTitle('extend-focus', settings)).toBe('+5 минут');
+  });
+
+  it('round-trips the site through the snooze alarm name', () => {
+    expect(snoozedSiteId(snoozeAlarmName('leetcode.com'))).toBe('leetcode.com');
+    expect(snoozedSiteId('focus-end')).toBeNull();
+  });
+
+  it('lands on the tracked path of a known site', () => {
+    const site = createSite({ pattern: 'leetcode.com', pathPrefix: '/problems' });
+    expect(siteLandingUrl(site.id, [site])).toBe('https://leetcode.com/problems');
+    expect(siteLandingUrl('coursera.org', [site])).toBe('https://coursera.org');
+  });
+
+  it('keeps the snooze interval within range', () => {
+    expect(settingsFieldProblem('snoozeMinutes', 30)).toBeNull();
+    expect(settingsFieldProblem('snoozeMinutes', 2)).toBe('от 5 до 240 минут');
+    expect(settingsFieldProblem('snoozeMinutes', 12.5)).not.toBeNull();
+  });
+});
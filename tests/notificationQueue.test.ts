@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collapseQueue,
+  enqueueNotification,
+  NOTIFICATION_QUEUE_LIMIT,
+  QUEUED_NOTIFICATION_TTL_MS,
+  QUIET_DIGEST_ID,
+  shouldHoldNotification
+} from '../src/service/notificationQueue.js';
+import { createIdleState, streakWarningNotificationId, transitionUserState } from '../src/service/userState.js';
+import { NotificationRequest, QueuedNotification } from '../src/shared/types.js';
+
+const NOW = Date.parse('2024-03-01T23:00:00Z');
+
+const WARNING: NotificationRequest = {
+  id: streakWarningNotificationId('leetcode.com'),
+  title: 'Серия на волоске',
+  message: 'leetcode.com: добавьте 5 минут, чтобы спасти день',
+  siteId: 'leetcode.com',
+  actions: ['start-focus', 'snooze'],
+  priority: 'high'
+};
+const SAVED: NotificationRequest = {
+  id: 'streak-saved-coursera.org',
+  title: 'Стрик спасён! ❄️',
+  message: 'Заморозка закрыла 1 дн.',
+  siteId: 'coursera.org',
+  actions: [],
+  priority: 'normal'
+};
+
+describe('notification queue', () => {
+  it('holds streak news and turns focus chatter into nudges', () => {
+    const warned = transitionUserState(
+      createIdleState(NOW),
+      { type: 'streakExpireSoon', siteId: 'leetcode.com', goalMinutes: 5 },
+      NOW
+    );
+    const warning = warned.effects.find((effect) => effect.kind === 'notification');
+    expect(warning).toMatchObject({ id: WARNING.id, priority: 'high' });
+    expect(shouldHoldNotification(WARNING)).toBe(true);
+    expect(shouldHoldNotification(SAVED)).toBe(true);
+    expect(shouldHoldNotification({ ...WARNING, id: 'focus-start', priority: 'low' })).toBe(false);
+  });
+
+  it('replaces a repeated id and keeps the most important entries within the limit', () => {
+    let queue = enqueueNotification([], SAVED, NOW);
+    queue = enqueueNotification(queue, WARNING, NOW + 1);
+    queue = enqueueNotification(queue, { ...WARNING, message: 'ещё раз' }, NOW + 2);
+    expect(queue.map((item) => [item.id, item.message])).toEqual([
+      [WARNING.id, 'ещё раз'],
+      [SAVED.id, SAVED.message]
+    ]);
+    expect(queue[0].expiresAt).toBe(NOW + 2 + QUEUED_NOTIFICATION_TTL_MS);
+
+    for (let index = 0; index < NOTIFICATION_QUEUE_LIMIT; index += 1) {
+      queue = enqueueNotification(queue, { ...SAVED, id: `streak-saved-${index}` }, NOW + 10 + index);
+    }
+    expect(queue).toHaveLength(NOTIFICATION_QUEUE_LIMIT);
+    expect(queue[0].id).toBe(WARNING.id);
+    expect(queue.some((item) => item.id === SAVED.id)).toBe(true);
+    expect(queue.some((item) => item.id === `streak-saved-${NOTIFICATION_QUEUE_LIMIT - 1}`)).toBe(false);
+  });
+
+  it('delivers a single held notification unchanged', () => {
+    const queue = enqueueNotification([], WARNING, NOW);
+    expect(collapseQueue(queue, NOW + 60_000)).toEqual({ ...WARNING, items: [] });
+  });
+
+  it('collapses several into one list led by the most important', () => {
+    const queue = enqueueNotification(enqueueNotification([], SAVED, NOW), WARNING, NOW + 1);
+    expect(collapseQueue(queue, NOW + 60_000)).toEqual({
+      ...WARNING,
+      id: QUIET_DIGEST_ID,
+      title: 'Пока было тихо: 2',
+      items: [
+        { title: WARNING.title, message: WARNING.message },
+        { title: SAVED.title, message: SAVED.message }
+      ]
+    });
+  });
+
+  it('drops expired and stale entries', () => {
+    const queue = enqueueNotification(enqueueNotification([], SAVED, NOW), WARNING, NOW + 1);
+    const isStale = (item: QueuedNotification) => item.id === WARNING.id;
+    expect(collapseQueue(queue, NOW + 60_000, isStale)).toMatchObject({ id: SAVED.id, items: [] });
+    expect(collapseQueue(queue, NOW + QUEUED_NOTIFICATION_TTL_MS + 1)).toBeNull();
+  });
+});
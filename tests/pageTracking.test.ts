@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addSessionMinutes,
+  forgetPageMinutes,
+  MAX_PAGES_PER_SESSION,
+  mergeActivitySlot,
+  OTHER_PAGES_KEY
+} from '../src/service/activity.js';
+import { computeStats } from '../src/service/stats.js';
+import { createExportDocument, validateExportDocument } from '../src/service/transfer.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { normalizePageUrl } from '../src/shared/sites.js';
+import { ActivitySlot, Session, Settings } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'UTC', pageTracking: true };
+const NOW = Date.UTC(2024, 2, 1, 12, 0, 0);
+
+function slot(url: string, timestamp = NOW): ActivitySlot {
+  return { kind: 'input', siteId: new URL(url).hostname.replace(/^www\./, ''), url, durationSec: 30, timestamp };
+}
+
+describe('normalizePageUrl', () => {
+  it('keeps host and path only', () => {
+    expect(normalizePageUrl('https://www.LeetCode.com/problems/two-sum/?envType=daily#description')).toBe(
+      'leetcode.com/problems/two-sum'
+    );
+    expect(normalizePageUrl('https://docs.python.org//3/library///re.html')).toBe('docs.python.org/3/library/re.html');
+    expect(normalizePageUrl('https://coursera.org/?utm_source=mail')).toBe('coursera.org/');
+  });
+
+  it('ignores non-web and malformed URLs', () => {
+    expect(normalizePageUrl('chrome://extensions')).toBeNull();
+    expect(normalizePageUrl('not a url')).toBeNull();
+  });
+});
+
+describe('page accounting', () => {
+  it('adds slot minutes to the page only while tracking is on', () => {
+    const data = { sessions: [], streaks: [] };
+    const first = mergeActivitySlot(slot('https://leetcode.com/problems/two-sum/?tab=1'), data, SETTINGS);
+    const second = mergeActivitySlot(slot('https://leetcode.com/problems/two-sum', NOW + 30_000), first, SETTINGS);
+    const third = mergeActivitySlot(slot('https://leetcode.com/problems/3sum', NOW + 60_000), second, SETTINGS);
+    expect(third.sessions[0].pageMinutes).toEqual({
+      'leetcode.com/problems/two-sum': 1,
+      'leetcode.com/problems/3sum': 0.5
+    });
+
+    const untracked = mergeActivitySlot(slot('https://leetcode.com/problems/two-sum'), data, {
+      ...SETTINGS,
+      pageTracking: false
+    });
+    expect(untracked.sessions[0]).not.toHaveProperty('pageMinutes');
+  });
+
+  it('caps distinct pages per session and pools the rest', () => {
+    const pageMinutes = Object.fromEntries(
+      Array.from({ length: MAX_PAGES_PER_SESSION }, (_, index) => [`example.com/page-${index}`, 1])
+    );
+    const session: Session = {
+      id: 'example.com:2024-03-01',
+      siteId: 'example.com',
+      date: '2024-03-01',
+      activeMinutes: 50,
+      pageMinutes
+    };
+    const next = addSessionMinutes(session, 2, 0, { pageMinutes: { 'example.com/new': 2 } });
+    expect(next.pageMinutes?.[OTHER_PAGES_KEY]).toBe(2);
+    expect(next.pageMinutes).not.toHaveProperty('example.com/new');
+  });
+
+  it('forgets recorded pages', () => {
+    const tracked: Session = {
+      id: 'example.com:2024-03-01',
+      siteId: 'example.com',
+      date: '2024-03-01',
+      activeMinutes: 3,
+      pageMinutes: { 'example.com/a': 3 }
+    };
+    const { pageMinutes: _pages, ...untracked } = tracked;
+    const plain: Session[] = [{ ...untracked, id: 'example.com:2024-03-02', date: '2024-03-02' }];
+    expect(forgetPageMinutes([tracked])).toEqual([untracked]);
+    expect(forgetPageMinutes(plain)).toBe(plain);
+  });
+
+  it('lists the top pages of each site in the stats', () => {
+    const sessions: Session[] = [
+      {
+        id: 'leetcode.com:2024-03-01',
+        siteId: 'leetcode.com',
+        date: '2024-03-01',
+        activeMinutes: 20,
+        pageMinutes: { 'leetcode.com/problems/two-sum': 12, 'leetcode.com/problems/3sum': 4, [OTHER_PAGES_KEY]: 4 }
+      },
+      {
+        id: 'leetcode.com:2024-03-02',
+        siteId: 'leetcode.com',
+        date: '2024-03-02',
+        activeMinutes: 10,
+        pageMinutes: { 'leetcode.com/problems/3sum': 10 }
+      }
+    ];
+    const stats = computeStats({ sessions, rollups: [], sites: [] }, SETTINGS, '2024-03-02');
+    expect(stats.sites[0].topPages).toEqual([
+      { page: 'leetcode.com/problems/3sum', activeMinutes: 14 },
+      { page: 'leetcode.com/problems/two-sum', activeMinutes: 12 }
+    ]);
+  });
+
+  it('round-trips pages through an export and drops malformed ones', () => {
+    const session: Session = {
+      id: 'leetcode.com:2024-03-01',
+      siteId: 'leetcode.com',
+      date: '2024-03-01',
+      activeMinutes: 5,
+      pageMinutes: { 'leetcode.com/problems/two-sum': 5 }
+    };
+    const document = createExportDocument({
+      settings: SETTINGS,
+      sessions: [
+        session,
+        { ...session, id: 'leetcode.com:2024-03-02', date: '2024-03-02', pageMinutes: { x: 'lots' } as never }
+      ],
+      rollups: [],
+      streaks: [],
+      sites: []
+    });
+    const result = validateExportDocument(JSON.parse(JSON.stringify(document)));
+    expect(result.document?.data.sessions[0]).toEqual(session);
+    expect(result.document?.data.sessions[1]).not.toHaveProperty('pageMinutes');
+  });
+});
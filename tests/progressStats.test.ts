@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { buildHeatmap, computeStats, STATS_WEEKS, STATS_WINDOW_DAYS, suggestQuietHours } from '../src/service/stats.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { createSite } from '../src/shared/sites.js';
+import { Session, SessionRollup, Settings } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'UTC', sessionLengthMinutes: 5 };
+const LEETCODE = createSite({ pattern: 'leetcode.com', pathPrefix: null }, { dailyGoalMin: 20 });
+const TODAY = '2024-03-14'; // Thursday
+
+function session(siteId: string, date: string, activeMinutes: number): Session {
+  return { id: `${siteId}:${date}`, siteId, date, activeMinutes };
+}
+
+describe('computeStats', () => {
+  it('returns an empty but complete summary without sessions', () => {
+    const stats = computeStats({ sessions: [], rollups: [], sites: [] }, SETTINGS, TODAY);
+    expect(stats.days).toHaveLength(STATS_WINDOW_DAYS);
+    expect(stats.days[0].date).toBe('2024-02-14');
+    expect(stats.days[STATS_WINDOW_DAYS - 1]).toEqual({ date: TODAY, activeMinutes: 0, goalsMet: 0 });
+    expect(stats.weeks).toHaveLength(STATS_WEEKS);
+    expect(stats).toMatchObject({ average7: 0, average30: 0, bestDay: null, sites: [], goalHitRate: 0 });
+  });
+
+  it('totals days across sites and averages over the trailing windows', () => {
+    const sessions = [
+      session('leetcode.com', '2024-03-14', 30),
+      session('docs.python.org', '2024-03-14', 12),
+      session('leetcode.com', '2024-03-10', 10),
+      session('leetcode.com', '2024-02-20', 18),
+      // Outside the 30-day window.
+      session('leetcode.com', '2024-01-02', 90)
+    ];
+    const stats = computeStats({ sessions, rollups: [], sites: [LEETCODE] }, SETTINGS, TODAY);
+
+    expect(stats.days.at(-1)).toEqual({ date: TODAY, activeMinutes: 42, goalsMet: 2 });
+    expect(stats.days.find((day) => day.date === '2024-03-10')).toEqual({ date: '2024-03-10', activeMinutes: 10, goalsMet: 0 });
+    expect(stats.average7).toBe(7.43);
+    expect(stats.average30).toBe(2.33);
+    expect(stats.bestDay).toEqual({ date: '2024-01-02', activeMinutes: 90, goalsMet: 1 });
+    // Only today reached a goal: leetcode 30 ≥ 20 and docs 12 ≥ the 5 minute default.
+    expect(stats.goalHitRate).toBeCloseTo(1 / 30, 5);
+  });
+
+  it('breaks the window down by site with shares and goal hit rates', () => {
+    const sessions = [
+      session('leetcode.com', '2024-03-12', 25),
+      session('leetcode.com', '2024-03-13', 5),
+      session('leetcode.com', '2024-03-14', 30),
+      session('docs.python.org', '2024-03-14', 20)
+    ];
+    const stats = computeStats({ sessions, rollups: [], sites: [LEETCODE] }, SETTINGS, TODAY);
+
+    expect(stats.sites).toEqual([
+      { siteId: 'leetcode.com', activeMinutes: 60, share: 0.75, goalHitRate: 2 / 3, topPages: [] },
+      { siteId: 'docs.python.org', activeMinutes: 20, share: 0.25, goalHitRate: 1, topPages: [] }
+    ]);
+  });
+
+  it('builds weekly totals from sessions and week roll-ups', () => {
+    const rollup: SessionRollup = {
+      id: 'leetcode.com:week:2024-01-22',
+      siteId: 'leetcode.com',
+      period: 'week',
+      start: '2024-01-22',
+      activeMinutes: 40,
+      activeDays: 4
+    };
+    const sessions = [
+      session('leetcode.com', '2024-03-11', 10),
+      session('leetcode.com', '2024-03-14', 5),
+      session('leetcode.com', '2024-03-08', 7)
+    ];
+    const stats = computeStats({ sessions, rollups: [rollup], sites: [] }, SETTINGS, TODAY);
+
+    expect(stats.weeks[0]).toEqual({ weekStart: '2024-01-22', activeMinutes: 40 });
+    expect(stats.weeks.at(-2)).toEqual({ weekStart: '2024-03-04', activeMinutes: 7 });
+    expect(stats.weeks.at(-1)).toEqual({ weekStart: '2024-03-11', activeMinutes: 15 });
+  });
+});
+
+describe('time-of-day heatmap', () => {
+  function hourly(entries: Record<number, number>): number[] {
+    return Array.from({ length: 24 }, (_, hour) => entries[hour] ?? 0);
+  }
+
+  it('sums hourly buckets by weekday, Monday first, and skips sessions without buckets', () => {
+    const sessions: Session[] = [
+      { ...session('leetcode.com', '2024-03-11', 30), hourlyMinutes: hourly({ 9: 20, 21: 10 }) }, // Monday
+      { ...session('docs.python.org', '2024-03-11', 5), hourlyMinutes: hourly({ 9: 5 }) },
+      { ...session('leetcode.com', '2024-03-17', 15), hourlyMinutes: hourly({ 23: 15 }) }, // Sunday
+      session('leetcode.com', '2024-03-12', 40),
+      { ...session('leetcode.com', '2024-01-01', 60), hourlyMinutes: hourly({ 12: 60 }) }
+    ];
+    const heatmap = buildHeatmap(sessions, '2024-03-01', '2024-03-17');
+
+    expect(heatmap).toHaveLength(7);
+    expect(heatmap[0][9]).toBe(25);
+    expect(heatmap[0][21]).toBe(10);
+    expect(heatmap[6][23]).toBe(15);
+    expect(heatmap.flat().reduce((sum, minutes) => sum + minutes, 0)).toBe(50);
+  });
+
+  it('suggests the least active eight-hour stretch as quiet hours', () => {
+    const heatmap = Array.from({ length: 7 }, () => hourly({}));
+    expect(suggestQuietHours(heatmap)).toBeNull();
+
+    // Active in the evening and late at night, idle in the morning.
+    heatmap[2] = hourly({ 0: 20, 1: 15, 13: 5, 18: 30, 22: 40, 23: 25 });
+    expect(suggestQuietHours(heatmap)).toEqual({ start: 2 * 60, end: 10 * 60, days: [] });
+  });
+
+  it('keeps the usual evening start when several stretches are equally quiet', () => {
+    const heatmap = Array.from({ length: 7 }, () => hourly({ 12: 10 }));
+    expect(suggestQuietHours(heatmap)).toEqual({ start: 22 * 60, end: 6 * 60, days: [] });
+  });
+});
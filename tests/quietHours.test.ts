@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateQuietHours } from '../src/service/activity.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { Settings } from '../src/shared/types.js';
+
+const BERLIN: Settings = {
+  ...DEFAULT_SETTINGS,
+  tz: 'Europe/Berlin',
+  quietHours: [
+    // weeknights (Sun–Thu) 22:30–07:15
+    { start: 22 * 60 + 30, end: 7 * 60 + 15, days: [0, 1, 2, 3, 4] },
+    // weekend lie-in: Fri and Sat nights until 10:00
+    { start: 23 * 60, end: 10 * 60, days: [5, 6] }
+  ]
+};
+
+describe('evaluateQuietHours', () => {
+  it('uses the configured zone instead of the browser clock', () => {
+    // 21:00 UTC on Monday 2023-07-03 is 23:00 in Berlin (UTC+2)
+    const result = evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 3, 21, 0)));
+    expect(result.withinQuietHours).toBe(true);
+    expect(result.nextBoundary).toBe(Date.UTC(2023, 6, 4, 5, 15));
+  });
+
+  it('respects minute boundaries', () => {
+    expect(evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 3, 20, 29))).withinQuietHours).toBe(false);
+    expect(evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 3, 20, 30))).withinQuietHours).toBe(true);
+    expect(evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 4, 5, 14))).withinQuietHours).toBe(true);
+    expect(evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 4, 5, 15))).withinQuietHours).toBe(false);
+  });
+
+  it('applies weekday schedules by the day a range starts', () => {
+    // Saturday 09:30 Berlin: covered by Friday night's lie-in range
+    const saturdayMorning = evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 8, 7, 30)));
+    expect(saturdayMorning.withinQuietHours).toBe(true);
+    expect(saturdayMorning.activeRange?.days).toEqual([5, 6]);
+    expect(saturdayMorning.nextBoundary).toBe(Date.UTC(2023, 6, 8, 8, 0));
+
+    // Friday 22:45 Berlin: the weeknight range does not start on Fridays
+    const fridayEvening = evaluateQuietHours(BERLIN, new Date(Date.UTC(2023, 6, 7, 20, 45)));
+    expect(fridayEvening.withinQuietHours).toBe(false);
+    expect(fridayEvening.nextBoundary).toBe(Date.UTC(2023, 6, 7, 21, 0));
+  });
+
+  it('skips over back-to-back ranges when reporting the boundary', () => {
+    const settings: Settings = {
+      ...DEFAULT_SETTINGS,
+      tz: 'UTC',
+      quietHours: [
+        { start: 22 * 60, end: 0, days: [] },
+        { start: 0, end: 6 * 60, days: [] }
+      ]
+    };
+    const result = evaluateQuietHours(settings, new Date(Date.UTC(2023, 6, 3, 23, 0)));
+    expect(result.withinQuietHours).toBe(true);
+    expect(result.nextBoundary).toBe(Date.UTC(2023, 6, 4, 6, 0));
+  });
+
+  it('reports nothing when no ranges are configured', () => {
+    expect(evaluateQuietHours({ ...BERLIN, quietHours: [] }, new Date())).toEqual({
+      withinQuietHours: false,
+      activeRange: null,
+      nextBoundary: null
+    });
+  });
+});
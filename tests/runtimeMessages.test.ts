@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseRuntimeRequest } from '../src/shared/messages.js';
+import { sendRequest } from '../src/shared/rpc.js';
+
+describe('parseRuntimeRequest', () => {
+  it('accepts a well-formed request', () => {
+    const parsed = parseRuntimeRequest({
+      type: 'activity-slot',
+      payload: { kind: 'input', siteId: 'leetcode.com', url: 'https://leetcode.com/problems/two-sum', durationSec: 12, timestamp: 1 }
+    });
+    expect(parsed.ok).toBe(true);
+  });
+
+  it('accepts requests without a payload', () => {
+    expect(parseRuntimeRequest({ type: 'settings:read' })).toEqual({
+      ok: true,
+      request: { type: 'settings:read', payload: undefined }
+    });
+  });
+
+  it('rejects unknown message types', () => {
+    const parsed = parseRuntimeRequest({ type: 'settings:delete' });
+    expect(parsed).toMatchObject({ ok: false, error: { code: 'unknown-message' } });
+    expect(parseRuntimeRequest('settings:read')).toMatchObject({ ok: false, error: { code: 'unknown-message' } });
+  });
+
+  it('reports every invalid payload field', () => {
+    const parsed = parseRuntimeRequest({
+      type: 'focus-mode:start',
+      payload: { siteId: '', durationMinutes: 2.5 }
+    });
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) {
+      expect(parsed.error.code).toBe('invalid-payload');
+      expect(parsed.error.details).toHaveLength(2);
+    }
+  });
+
+  it('validates settings patches field by field', () => {
+    expect(parseRuntimeRequest({ type: 'settings:update', payload: { audioEnabled: false } }).ok).toBe(true);
+    const parsed = parseRuntimeRequest({ type: 'settings:update', payload: { tz: 'Mars/Olympus', mystery: 1 } });
+    expect(parsed).toMatchObject({ ok: false, error: { code: 'invalid-payload' } });
+    if (!parsed.ok) {
+      expect(parsed.error.details).toEqual(['tz: неизвестный часовой пояс', 'mystery: неизвестное поле']);
+    }
+  });
+
+  it('accepts only whole, non-negative freezes and session lengths', () => {
+    expect(parseRuntimeRequest({ type: 'settings:update', payload: { weeklyFreezes: 0, sessionLengthMinutes: 25 } }).ok).toBe(true);
+    const parsed = parseRuntimeRequest({ type: 'settings:update', payload: { weeklyFreezes: -1, sessionLengthMinutes: 2.5 } });
+    expect(parsed).toMatchObject({
+      ok: false,
+      error: { details: ['weeklyFreezes: целое число от 0 до 7', 'sessionLengthMinutes: целое число от 1 до 180'] }
+    });
+  });
+
+  it('bounds presets and overlay transparency', () => {
+    expect(parseRuntimeRequest({ type: 'settings:update', payload: { focusPresets: [5, 25], overlayTransparency: 0.5 } }).ok).toBe(true);
+    const parsed = parseRuntimeRequest({ type: 'settings:update', payload: { focusPresets: [5, 0.5, 1000], overlayTransparency: 3 } });
+    expect(parsed).toMatchObject({
+      ok: false,
+      error: { details: ['focusPresets: целые числа от 1 до 180', 'overlayTransparency: от 0 до 1'] }
+    });
+  });
+
+  it('accepts focus durations only as whole minutes within range', () => {
+    expect(parseRuntimeRequest({ type: 'focus-mode:start', payload: { siteId: 'leetcode.com', durationMinutes: 25 } }).ok).toBe(true);
+    expect(parseRuntimeRequest({ type: 'focus-mode:start', payload: { siteId: 'leetcode.com', durationMinutes: 10_000 } })).toMatchObject({
+      ok: false,
+      error: { details: ['durationMinutes: не больше 180'] }
+    });
+    expect(parseRuntimeRequest({ type: 'focus-mode:extend', payload: { minutes: 1.5 } })).toMatchObject({
+      ok: false,
+      error: { details: ['minutes: ожидается целое число'] }
+    });
+  });
+});
+
+describe('sendRequest', () => {
+  afterEach(() => {
+    // @ts-expect-error cleanup test double
+    delete globalThis.chrome;
+  });
+
+  function stubSendMessage(implementation: (message: unknown) => Promise<unknown>) {
+    const sendMessage = vi.fn(implementation);
+    // @ts-expect-error minimal chrome stub for rpc tests
+    globalThis.chrome = { runtime: { sendMessage } };
+    return sendMessage;
+  }
+
+  it('sends the typed envelope and returns the response', async () => {
+    const sendMessage = stubSendMessage(async () => ({ ok: true, streaks: [] }));
+    const response = await sendRequest('streaks:freeze', { siteId: 'leetcode.com' });
+    expect(sendMessage).toHaveBeenCalledWith({ type: 'streaks:freeze', payload: { siteId: 'leetcode.com' } });
+    expect(response).toEqual({ ok: true, streaks: [] });
+  });
+
+  it('passes structured errors through unchanged', async () => {
+    const error = { ok: false, error: { code: 'freeze-unavailable', message: 'nope' } };
+    stubSendMessage(async () => error);
+    expect(await sendRequest('streaks:freeze', { siteId: 'leetcode.com' })).toEqual(error);
+  });
+
+  it('turns transport failures into unreachable errors', async () => {
+    stubSendMessage(async () => {
+      throw new Error('Could not establish connection. Receiving end does not exist.');
+    });
+    expect(await sendRequest('settings:read')).toMatchObject({ ok: false, error: { code: 'unreachable' } });
+
+    stubSendMessage(async () => undefined);
+    expect(await sendRequest('settings:read')).toMatchObject({ ok: false, error: { code: 'unreachable' } });
+  });
+});
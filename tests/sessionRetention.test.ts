@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { applyRetention, mergeRollups } from '../src/service/retention.js';
+import { createExportDocument, validateExportDocument } from '../src/service/transfer.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { findSession, upsertSession } from '../src/shared/storage.js';
+import { Session, SessionRollup, Settings } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'UTC', dailyRetentionDays: 35, weeklyRetentionWeeks: 12 };
+
+function session(date: string, activeMinutes: number, siteId = 'leetcode.com'): Session {
+  return { id: `${siteId}:${date}`, siteId, date, activeMinutes };
+}
+
+describe('applyRetention', () => {
+  it('leaves data untouched while everything is recent', () => {
+    const data = { sessions: [session('2024-03-01', 5)], rollups: [] };
+    expect(applyRetention(data, SETTINGS, '2024-03-10')).toBe(data);
+  });
+
+  it('rolls expired days into ISO-week roll-ups', () => {
+    const sessions = [
+      session('2024-01-01', 5),
+      { ...session('2024-01-03', 10), mediaMinutes: 4 },
+      session('2024-01-07', 0),
+      session('2024-01-08', 7),
+      session('2024-03-01', 3)
+    ];
+    const result = applyRetention({ sessions, rollups: [] }, SETTINGS, '2024-02-13');
+
+    expect(result.sessions.map((item) => item.date)).toEqual(['2024-03-01']);
+    expect(result.rollups).toEqual([
+      { id: 'leetcode.com:week:2024-01-01', siteId: 'leetcode.com', period: 'week', start: '2024-01-01', activeMinutes: 15, mediaMinutes: 4, activeDays: 2 },
+      { id: 'leetcode.com:week:2024-01-08', siteId: 'leetcode.com', period: 'week', start: '2024-01-08', activeMinutes: 7, activeDays: 1 }
+    ]);
+  });
+
+  it('folds whole weeks past the weekly cutoff into the month of their Thursday', () => {
+    const week = (start: string, activeMinutes: number): SessionRollup => ({
+      id: `leetcode.com:week:${start}`,
+      siteId: 'leetcode.com',
+      period: 'week',
+      start,
+      activeMinutes,
+      activeDays: 3
+    });
+    // 2024-01-29 starts a week whose Thursday falls on 2024-02-01.
+    const rollups = [week('2024-01-22', 20), week('2024-01-29', 30), week('2024-02-05', 40)];
+    const result = applyRetention({ sessions: [], rollups }, { ...SETTINGS, weeklyRetentionWeeks: 4 }, '2024-03-10');
+
+    expect(result.rollups).toEqual([
+      { id: 'leetcode.com:month:2024-01-01', siteId: 'leetcode.com', period: 'month', start: '2024-01-01', activeMinutes: 20, activeDays: 3 },
+      { id: 'leetcode.com:month:2024-02-01', siteId: 'leetcode.com', period: 'month', start: '2024-02-01', activeMinutes: 30, activeDays: 3 },
+      week('2024-02-05', 40)
+    ]);
+  });
+
+  it('adds to existing roll-ups instead of duplicating them', () => {
+    const existing: SessionRollup = {
+      id: 'leetcode.com:week:2024-01-01',
+      siteId: 'leetcode.com',
+      period: 'week',
+      start: '2024-01-01',
+      activeMinutes: 5,
+      activeDays: 1
+    };
+    const result = applyRetention({ sessions: [session('2024-01-02', 6)], rollups: [existing] }, SETTINGS, '2024-02-13');
+    expect(result.rollups).toEqual([{ ...existing, activeMinutes: 11, activeDays: 2 }]);
+  });
+});
+
+describe('session index', () => {
+  it('finds sessions across upserts', () => {
+    let sessions: Session[] = [];
+    for (let day = 1; day <= 9; day += 1) {
+      sessions = upsertSession(sessions, session(`2024-03-0${day}`, day));
+    }
+    sessions = upsertSession(sessions, session('2024-03-05', 50));
+
+    expect(sessions).toHaveLength(9);
+    expect(findSession(sessions, 'leetcode.com:2024-03-05')?.activeMinutes).toBe(50);
+    expect(findSession(sessions, 'leetcode.com:2024-04-01')).toBeUndefined();
+  });
+
+  it('keeps sibling arrays derived from one parent consistent', () => {
+    const parent = [session('2024-03-01', 1)];
+    const left = upsertSession(parent, session('2024-03-02', 2));
+    const right = upsertSession(parent, session('2024-03-03', 3));
+
+    expect(findSession(left, 'leetcode.com:2024-03-02')?.activeMinutes).toBe(2);
+    expect(findSession(right, 'leetcode.com:2024-03-03')?.activeMinutes).toBe(3);
+    expect(findSession(right, 'leetcode.com:2024-03-02')).toBeUndefined();
+    expect(findSession(left, 'leetcode.com:2024-03-03')).toBeUndefined();
+    expect(findSession(parent, 'leetcode.com:2024-03-02')).toBeUndefined();
+  });
+
+  it('works on arrays it has not seen before', () => {
+    const sessions = [session('2024-03-01', 1), session('2024-03-02', 2)];
+    expect(findSession(sessions.filter((item) => item.activeMinutes > 1), 'leetcode.com:2024-03-02')?.activeMinutes).toBe(2);
+  });
+});
+
+describe('roll-up transfer', () => {
+  const rollup: SessionRollup = {
+    id: 'leetcode.com:month:2023-11-01',
+    siteId: 'leetcode.com',
+    period: 'month',
+    start: '2023-11-01',
+    activeMinutes: 120,
+    mediaMinutes: 30,
+    activeDays: 12
+  };
+
+  it('round-trips roll-ups through an export', () => {
+    const document = createExportDocument({ settings: SETTINGS, sessions: [], rollups: [rollup], streaks: [], sites: [] });
+    const result = validateExportDocument(JSON.parse(JSON.stringify(document)));
+    expect(result.ok).toBe(true);
+    expect(result.document?.data.rollups).toEqual([rollup]);
+  });
+
+  it('drops malformed roll-ups with a warning', () => {
+    const document = createExportDocument({ settings: SETTINGS, sessions: [], rollups: [], streaks: [], sites: [] });
+    const result = validateExportDocument({
+      ...document,
+      data: { ...document.data, rollups: [{ ...rollup, period: 'year' }] }
+    });
+    expect(result.document?.data.rollups).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('sums roll-ups sharing an id when merging', () => {
+    expect(mergeRollups([rollup], [{ ...rollup, activeMinutes: 30, mediaMinutes: 0, activeDays: 3 }])).toEqual([
+      { ...rollup, activeMinutes: 150, activeDays: 15 }
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createSite, normalizeSiteInput, resolveSiteForUrl } from '../src/shared/sites.js';
+
+describe('normalizeSiteInput', () => {
+  it('splits host and path prefix', () => {
+    expect(normalizeSiteInput('https://www.LeetCode.com/problems/?tab=all')).toEqual({
+      pattern: 'leetcode.com',
+      pathPrefix: '/problems'
+    });
+    expect(normalizeSiteInput('docs.python.org')).toEqual({ pattern: 'docs.python.org', pathPrefix: null });
+  });
+
+  it('keeps the case of the path prefix so it matches real URLs', () => {
+    const input = normalizeSiteInput('Example.COM/Problems/');
+    expect(input).toEqual({ pattern: 'example.com', pathPrefix: '/Problems' });
+    const site = createSite(input!);
+    expect(resolveSiteForUrl('https://example.com/Problems/two-sum', [site])?.id).toBe('example.com/Problems');
+    expect(resolveSiteForUrl('https://example.com/problems/two-sum', [site])).toBeNull();
+  });
+
+  it('rejects empty input', () => {
+    expect(normalizeSiteInput('   ')).toBeNull();
+  });
+});
+
+describe('resolveSiteForUrl', () => {
+  const whole = createSite({ pattern: 'leetcode.com', pathPrefix: null });
+  const problems = createSite({ pattern: 'leetcode.com', pathPrefix: '/problems' }, { dailyGoalMin: 15 });
+
+  it('prefers the longest matching path prefix', () => {
+    expect(resolveSiteForUrl('https://leetcode.com/problems/two-sum/', [whole, problems])?.id).toBe('leetcode.com/problems');
+    expect(resolveSiteForUrl('https://leetcode.com/contest/', [whole, problems])?.id).toBe('leetcode.com');
+  });
+
+  it('matches subdomains and ignores partial path segments', () => {
+    expect(resolveSiteForUrl('https://www.leetcode.com/problemset', [problems])).toBeNull();
+    expect(resolveSiteForUrl('https://cn.leetcode.com/', [whole])?.id).toBe('leetcode.com');
+  });
+
+  it('returns null for unknown hosts or malformed urls', () => {
+    expect(resolveSiteForUrl('https://notleetcode.com/', [whole])).toBeNull();
+    expect(resolveSiteForUrl('not a url', [whole])).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AggregatedData,
+  mergeActivitySlot,
+  reconcileActivitySlot,
+  SLOT_WINDOW_MS,
+  SlotLedger
+} from '../src/service/activity.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { createSite } from '../src/shared/sites.js';
+import { ActivitySlot, Settings } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'UTC' };
+const START = Date.UTC(2024, 2, 1, 12, 0, 0);
+
+function heartbeats(url: string, offsetMs: number, durationMs: number): ActivitySlot[] {
+  const slots: ActivitySlot[] = [];
+  for (let at = START + offsetMs + SLOT_WINDOW_MS; at <= START + offsetMs + durationMs; at += SLOT_WINDOW_MS) {
+    slots.push({ kind: 'input', siteId: new URL(url).hostname, url, durationSec: SLOT_WINDOW_MS / 1000, timestamp: at });
+  }
+  return slots;
+}
+
+function aggregate(slots: ActivitySlot[], data: AggregatedData = { sessions: [], streaks: [] }) {
+  let ledger: SlotLedger = {};
+  let next = data;
+  let counted = 0;
+  for (const slot of [...slots].sort((a, b) => a.timestamp - b.timestamp)) {
+    const reconciled = reconcileActivitySlot(slot, data.sites ?? [], ledger);
+    if (!reconciled) {
+      continue;
+    }
+    ledger = reconciled.ledger;
+    counted += 1;
+    next = mergeActivitySlot(reconciled.slot, next, SETTINGS);
+  }
+  return { data: next, counted };
+}
+
+describe('reconcileActivitySlot', () => {
+  it('counts overlapping tabs on the same site as real elapsed time', () => {
+    const fiveMinutes = 5 * 60_000;
+    const tabA = heartbeats('https://leetcode.com/problems/two-sum', 0, fiveMinutes);
+    const tabB = heartbeats('https://leetcode.com/problems/3sum', 5_000, fiveMinutes - 5_000);
+    const tabC = heartbeats('https://leetcode.com/', 9_000, fiveMinutes - 9_000);
+
+    const single = aggregate(tabA);
+    const parallel = aggregate([...tabA, ...tabB, ...tabC]);
+
+    expect(single.data.sessions[0].activeMinutes).toBe(5);
+    expect(parallel.data.sessions).toHaveLength(1);
+    expect(parallel.data.sessions[0].activeMinutes).toBe(5);
+  });
+
+  it('counts two tabs reporting the same moments once', () => {
+    const minute = 60_000;
+    const { data, counted } = aggregate([
+      ...heartbeats('https://leetcode.com/problems/two-sum', 0, minute),
+      ...heartbeats('https://leetcode.com/problems/3sum', 0, minute)
+    ]);
+    expect(counted).toBe(minute / SLOT_WINDOW_MS);
+    expect(data.sessions[0].activeMinutes).toBe(1);
+  });
+
+  it('keeps every slot of a single tab whose timer jitters', () => {
+    const slot = (offsetMs: number): ActivitySlot => ({
+      kind: 'input',
+      siteId: 'leetcode.com',
+      url: 'https://leetcode.com/problems/two-sum',
+      durationSec: SLOT_WINDOW_MS / 1000,
+      timestamp: START + offsetMs
+    });
+    // 12001 and 23999 share a 12-second window but are two real slots.
+    const offsets = [12_001, 23_999, 36_002, 47_998, 60_000];
+    const { data, counted } = aggregate(offsets.map(slot));
+    expect(counted).toBe(offsets.length);
+    expect(data.sessions[0].activeMinutes).toBe(1);
+  });
+
+  it('keeps separate windows for different sites', () => {
+    const minute = 60_000;
+    const { data } = aggregate([
+      ...heartbeats('https://leetcode.com/problems/two-sum', 0, minute),
+      ...heartbeats('https://docs.python.org/3/', 3_000, minute)
+    ]);
+    expect(data.sessions.map((session) => [session.siteId, session.activeMinutes])).toEqual([
+      ['leetcode.com', 1],
+      ['docs.python.org', 1]
+    ]);
+  });
+
+  it('deduplicates by the resolved site, not the reported hostname', () => {
+    const sites = [createSite({ pattern: 'leetcode.com', pathPrefix: null })];
+    const first = reconcileActivitySlot(
+      { kind: 'input', siteId: 'leetcode.com', url: 'https://leetcode.com/problems/a', durationSec: 12, timestamp: START },
+      sites,
+      {}
+    );
+    expect(first).not.toBeNull();
+    const second = reconcileActivitySlot(
+      { kind: 'input', siteId: 'www.leetcode.com', url: 'https://www.leetcode.com/contest', durationSec: 12, timestamp: START + 1_000 },
+      sites,
+      first!.ledger
+    );
+    expect(second?.slot.durationSec).toBe(1);
+    expect(second?.ledger).toEqual({ 'leetcode.com': START + 1_000 });
+  });
+
+  it('rejects late slots and caps inflated durations', () => {
+    const ledger: SlotLedger = { 'leetcode.com': START };
+    const late: ActivitySlot = { kind: 'input', siteId: 'leetcode.com', url: 'https://leetcode.com/', durationSec: 12, timestamp: START - SLOT_WINDOW_MS };
+    expect(reconcileActivitySlot(late, [], ledger)).toBeNull();
+
+    const inflated = { ...late, durationSec: 600, timestamp: START + SLOT_WINDOW_MS };
+    expect(reconcileActivitySlot(inflated, [], ledger)?.slot.durationSec).toBe(SLOT_WINDOW_MS / 1000);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addCustomSound,
+  describeSoundLibrary,
+  findActiveSoundPack,
+  removeCustomSound,
+  saveSoundPack,
+  soundPackSettings
+} from '../src/service/soundLibrary.js';
+import { BUILTIN_SOUND_PACKS, CUSTOM_SOUND_LIMITS, customSoundProblems, resolveSoundAsset } from '../src/shared/audio.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { parseRuntimeRequest } from '../src/shared/messages.js';
+import { CustomSoundInput } from '../src/shared/types.js';
+
+const NOW = Date.parse('2024-03-01T10:00:00Z');
+const BEEP: CustomSoundInput = { name: 'Бип', dataUrl: 'data:audio/wav;base64,UklGRiQAAABXQVZF', durationSec: 1.5 };
+
+describe('custom sounds', () => {
+  it('accepts a short audio clip and explains what is wrong otherwise', () => {
+    expect(customSoundProblems(BEEP)).toEqual([]);
+    const huge = `data:audio/mpeg;base64,${'A'.repeat(Math.ceil((CUSTOM_SOUND_LIMITS.maxBytes * 4) / 3) + 4)}`;
+    expect(customSoundProblems({ name: ' ', dataUrl: huge, durationSec: 9 })).toEqual([
+      'Название: от 1 до 40 символов',
+      'Файл больше 256 КБ',
+      'Звук длиннее 8 секунд'
+    ]);
+    expect(customSoundProblems({ ...BEEP, dataUrl: 'data:image/png;base64,AAAA', durationSec: Number.NaN })).toEqual([
+      'Это не аудиофайл',
+      'Не удалось определить длительность'
+    ]);
+  });
+
+  it('rejects an invalid import before it reaches the worker', () => {
+    expect(parseRuntimeRequest({ type: 'sounds:add', payload: BEEP }).ok).toBe(true);
+    expect(parseRuntimeRequest({ type: 'sounds:add', payload: { ...BEEP, durationSec: 30 } })).toMatchObject({
+      ok: false,
+      error: { code: 'invalid-payload', details: ['Звук длиннее 8 секунд'] }
+    });
+  });
+
+  it('stores sounds up to the limit and hides their data from the popup', () => {
+    const sounds = addCustomSound([], BEEP, NOW)!;
+    expect(sounds[0]).toMatchObject({ name: 'Бип', sizeBytes: 12, addedAt: NOW });
+    expect(sounds[0].id.startsWith('custom:')).toBe(true);
+    expect(addCustomSound(sounds, BEEP, NOW)![1].id).toBe(`${sounds[0].id}-2`);
+
+    const full = Array.from({ length: CUSTOM_SOUND_LIMITS.maxSounds }, (_, index) => ({ ...sounds[0], id: `custom:${index}` }));
+    expect(addCustomSound(full, BEEP, NOW)).toBeNull();
+    expect(describeSoundLibrary(sounds, []).sounds[0]).not.toHaveProperty('dataUrl');
+  });
+
+  it('resolves imported sounds to their data and bundled ones to a path', () => {
+    const sounds = addCustomSound([], BEEP, NOW)!;
+    expect(resolveSoundAsset(sounds[0].id, sounds)).toBe(BEEP.dataUrl);
+    expect(resolveSoundAsset('custom:missing', sounds)).toBeNull();
+    expect(resolveSoundAsset('chime-soft')).toBe('assets/audio/chime-soft.mp3');
+  });
+
+  it('mutes every event and pack that used a removed sound', () => {
+    const sounds = addCustomSound([], BEEP, NOW)!;
+    const id = sounds[0].id;
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      audioEnabled: true,
+      focusEntrySound: id,
+      focusEndingSound: null,
+      focusSuccessSound: null,
+      streakWarningSound: null
+    };
+    const packs = saveSoundPack([], 'Мой', settings, NOW);
+    const result = removeCustomSound(sounds, packs, settings, id);
+    expect(result.sounds).toEqual([]);
+    expect(result.packs[0].sounds.focusEntrySound).toBeNull();
+    expect(result.settings).toMatchObject({ focusEntrySound: null, audioEnabled: false });
+  });
+});
+
+describe('sound packs', () => {
+  it('recognises the active pack and switches to another', () => {
+    const neon = BUILTIN_SOUND_PACKS.find((pack) => pack.id === 'builtin:neon')!;
+    const patch = soundPackSettings(neon);
+    expect(patch).toMatchObject({ ...neon.sounds, audioEnabled: true });
+    expect(findActiveSoundPack({ ...DEFAULT_SETTINGS, ...patch }, BUILTIN_SOUND_PACKS)?.id).toBe('builtin:neon');
+  });
+
+  it('replaces a user pack saved under the same name', () => {
+    const first = saveSoundPack([], 'Вечер', DEFAULT_SETTINGS, NOW);
+    const second = saveSoundPack(first, ' Вечер ', { ...DEFAULT_SETTINGS, focusEntrySound: null }, NOW + 1);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({ id: first[0].id, name: 'Вечер', sounds: { focusEntrySound: null } });
+  });
+});
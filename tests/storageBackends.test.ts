@@ -0,0 +1,152 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { mergeActivitySlot } from '../src/service/activity.js';
+import { createRepository } from '../src/service/repository.js';
+import { createChromeBackend, createMemoryBackend, moveRecords, StorageBackend } from '../src/shared/backend.js';
+import { createIndexedDbBackend } from '../src/shared/indexedDbBackend.js';
+import { createSite } from '../src/shared/sites.js';
+import { ActivitySlot, Session, StoredRecords } from '../src/shared/types.js';
+
+const SESSIONS: Session[] = [
+  { id: 'leetcode.com:2024-03-03', siteId: 'leetcode.com', date: '2024-03-03', activeMinutes: 3 },
+  { id: 'leetcode.com:2024-03-01', siteId: 'leetcode.com', date: '2024-03-01', activeMinutes: 1 },
+  { id: 'docs.python.org:2024-03-02', siteId: 'docs.python.org', date: '2024-03-02', activeMinutes: 2 },
+  { id: 'docs.python.org:2024-03-05', siteId: 'docs.python.org', date: '2024-03-05', activeMinutes: 5 }
+];
+
+function createFakeArea(initial: Partial<StoredRecords>): chrome.storage.StorageArea {
+  let data: Record<string, unknown> = structuredClone(initial);
+  const area = {
+    async get(keys: string | string[]) {
+      const list = Array.isArray(keys) ? keys : [keys];
+      return Object.fromEntries(list.filter((key) => key in data).map((key) => [key, structuredClone(data[key])]));
+    },
+    async set(items: Record<string, unknown>) {
+      data = { ...data, ...structuredClone(items) };
+    },
+    async remove(keys: string | string[]) {
+      const list = Array.isArray(keys) ? keys : [keys];
+      data = Object.fromEntries(Object.entries(data).filter(([key]) => !list.includes(key)));
+    }
+  };
+  return area as unknown as chrome.storage.StorageArea;
+}
+
+let databases = 0;
+
+async function createFakeIndexedDb(initial: Partial<StoredRecords>): Promise<StorageBackend> {
+  databases += 1;
+  const backend = createIndexedDbBackend(`bychok-test-${databases}`);
+  await backend.write(initial);
+  return backend;
+}
+
+describe.each([
+  ['memory', async (initial: Partial<StoredRecords>) => createMemoryBackend(initial)],
+  ['chrome.storage', async (initial: Partial<StoredRecords>) => createChromeBackend(createFakeArea(initial))],
+  ['IndexedDB', createFakeIndexedDb]
+])('%s backend', (_name, create: (initial: Partial<StoredRecords>) => Promise<StorageBackend>) => {
+  it('reads back what was written and leaves missing keys out', async () => {
+    const backend = await create({});
+    await backend.write({ streaks: [{ siteId: 'leetcode.com', length: 2, lastDate: '2024-03-01' }] });
+    expect(await backend.read(['streaks', 'focusHistory', 'sessions'])).toEqual({
+      streaks: [{ siteId: 'leetcode.com', length: 2, lastDate: '2024-03-01' }]
+    });
+    await backend.write({ sessions: [] });
+    expect(await backend.read(['sessions'])).toEqual({ sessions: [] });
+  });
+
+  it('forgets removed keys', async () => {
+    const backend = await create({ sessions: SESSIONS, sites: [] });
+    await backend.remove(['sessions', 'sites']);
+    expect(await backend.read(['sessions', 'sites'])).toEqual({});
+    expect(await backend.querySessions()).toEqual([]);
+  });
+
+  it('queries sessions by site and inclusive date range in date order', async () => {
+    const backend = await create({ sessions: SESSIONS });
+    const ids = (sessions: Session[]) => sessions.map((session) => session.id);
+
+    expect(ids(await backend.querySessions())).toEqual([
+      'leetcode.com:2024-03-01',
+      'docs.python.org:2024-03-02',
+      'leetcode.com:2024-03-03',
+      'docs.python.org:2024-03-05'
+    ]);
+    expect(ids(await backend.querySessions({ siteId: 'leetcode.com' }))).toEqual([
+      'leetcode.com:2024-03-01',
+      'leetcode.com:2024-03-03'
+    ]);
+    expect(ids(await backend.querySessions({ from: '2024-03-02', to: '2024-03-03' }))).toEqual([
+      'docs.python.org:2024-03-02',
+      'leetcode.com:2024-03-03'
+    ]);
+    expect(ids(await backend.querySessions({ siteId: 'docs.python.org', from: '2024-03-03' }))).toEqual([
+      'docs.python.org:2024-03-05'
+    ]);
+  });
+});
+
+describe('IndexedDB backend', () => {
+  it('puts and deletes only the sessions that changed', async () => {
+    const backend = await createFakeIndexedDb({ sessions: SESSIONS });
+    const { sessions = [] } = await backend.read(['sessions']);
+    const [first, second, third, fourth] = sessions;
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+    const remove = vi.spyOn(IDBObjectStore.prototype, 'delete');
+    const clear = vi.spyOn(IDBObjectStore.prototype, 'clear');
+    try {
+      const changed = { ...first, activeMinutes: 9 };
+      await backend.write({ sessions: [changed, second, third] });
+      expect(put.mock.calls.filter(([value]) => value !== true)).toEqual([[changed]]);
+      expect(remove.mock.calls).toEqual([[fourth.id]]);
+      expect(clear).not.toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+    const { sessions: stored = [] } = await backend.read(['sessions']);
+    expect(stored).toEqual([{ ...first, activeMinutes: 9 }, second, third]);
+  });
+});
+
+describe('moveRecords', () => {
+  it('moves every stored key once', async () => {
+    const legacy = createChromeBackend(createFakeArea({ sessions: SESSIONS, streaks: [] }));
+    const target = await createFakeIndexedDb({});
+    expect(await moveRecords(legacy, target)).toEqual(['sessions', 'streaks']);
+    expect(await target.read(['sessions', 'streaks'])).toEqual({ sessions: expect.any(Array), streaks: [] });
+    expect(await target.querySessions({ siteId: 'leetcode.com' })).toHaveLength(2);
+    expect(await legacy.read(['sessions', 'streaks'])).toEqual({});
+    expect(await moveRecords(legacy, target)).toEqual([]);
+  });
+});
+
+describe('activity aggregation without Chrome', () => {
+  it('persists merged slots through the repository into a backend', async () => {
+    const site = createSite({ pattern: 'leetcode.com', pathPrefix: null }, { dailyGoalMin: 1 });
+    const backend = createMemoryBackend({ sites: [site] });
+    const repository = createRepository(backend);
+    await repository.load();
+    const settings = { ...repository.get('settings'), tz: 'UTC' };
+
+    for (let index = 0; index < 6; index += 1) {
+      const slot: ActivitySlot = {
+        kind: 'input',
+        siteId: 'leetcode.com',
+        url: 'https://leetcode.com/problems/two-sum',
+        durationSec: 12,
+        timestamp: Date.UTC(2024, 2, 1, 12, 0, index * 12)
+      };
+      repository.update(mergeActivitySlot(slot, repository.snapshot(), settings));
+    }
+    await repository.flush();
+
+    expect(await backend.querySessions({ siteId: 'leetcode.com', from: '2024-03-01', to: '2024-03-01' })).toEqual([
+      expect.objectContaining({ id: 'leetcode.com:2024-03-01', siteId: 'leetcode.com', date: '2024-03-01', activeMinutes: 1.2 })
+    ]);
+    const stored = await backend.read(['streaks', 'settings']);
+    expect(stored.streaks).toEqual([expect.objectContaining({ siteId: 'leetcode.com', length: 1, lastDate: '2024-03-01' })]);
+    // Only the keys that changed were written.
+    expect(stored).not.toHaveProperty('settings');
+  });
+});
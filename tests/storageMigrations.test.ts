@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyMigrations, CURRENT_SCHEMA_VERSION, MIGRATIONS } from '../src/shared/migrations.js';
+import { migrateStorage } from '../src/shared/storage.js';
+
+const UNVERSIONED_FIXTURE = {
+  sessions: [
+    { id: 'leetcode.com:2023-01-01', siteId: 'leetcode.com', date: '2023-01-01', activeMinutes: '7.5' },
+    { id: 'broken', siteId: 'leetcode.com', date: 'yesterday', activeMinutes: 3 },
+    null
+  ],
+  streaks: [{ siteId: 'leetcode.com', length: 3, lastDate: '2023-01-01' }, { siteId: 42 }],
+  settings: {
+    tz: '+03:00',
+    quietHours: [[22, 7], [25, 3], 'noon'],
+    savedSites: ['leetcode.com', 'https://www.docs.python.org/3/', '']
+  }
+};
+
+function createFakeStorage(initial: Record<string, unknown>) {
+  let data: Record<string, unknown> = structuredClone(initial);
+  let writes = 0;
+  return {
+    get data() {
+      return data;
+    },
+    get writes() {
+      return writes;
+    },
+    area: {
+      async get(keys: string | string[] | null) {
+        if (keys === null) {
+          return structuredClone(data);
+        }
+        const list = Array.isArray(keys) ? keys : [keys];
+        return Object.fromEntries(list.filter((key) => key in data).map((key) => [key, structuredClone(data[key])]));
+      },
+      async set(items: Record<string, unknown>) {
+        writes += 1;
+        data = { ...data, ...structuredClone(items) };
+      },
+      async remove(keys: string | string[]) {
+        writes += 1;
+        for (const key of Array.isArray(keys) ? keys : [keys]) {
+          delete data[key];
+        }
+      }
+    }
+  };
+}
+
+describe('applyMigrations', () => {
+  it('upgrades unversioned data to the current schema', () => {
+    const outcome = applyMigrations(structuredClone(UNVERSIONED_FIXTURE), 0);
+    expect(outcome.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(outcome.applied).toEqual([1, 2, 3, 4, 5]);
+    expect(outcome.data.sessions).toEqual([
+      { id: 'leetcode.com:2023-01-01', siteId: 'leetcode.com', date: '2023-01-01', activeMinutes: 7.5 }
+    ]);
+    expect(outcome.data.streaks).toEqual([{ siteId: 'leetcode.com', length: 3, lastDate: '2023-01-01' }]);
+    expect(outcome.data.settings).toEqual({ tz: '+03:00', quietHours: [{ start: 1320, end: 420, days: [] }] });
+    expect((outcome.data.sites as Array<{ id: string }>).map((site) => site.id)).toEqual([
+      'leetcode.com',
+      'docs.python.org/3'
+    ]);
+  });
+
+  it('is a no-op for data already at the current version', () => {
+    const migrated = applyMigrations(structuredClone(UNVERSIONED_FIXTURE), 0);
+    const again = applyMigrations(migrated.data, migrated.toVersion);
+    expect(again.applied).toEqual([]);
+    expect(again.data).toBe(migrated.data);
+  });
+
+  it('drops the legacy +00:00 default zone but keeps explicit ones', () => {
+    expect(applyMigrations({ settings: { tz: '+00:00', notifications: false } }, 2).data.settings).toEqual({
+      notifications: false
+    });
+    expect(applyMigrations({ settings: { tz: 'Europe/Berlin' } }, 2).data.settings).toEqual({ tz: 'Europe/Berlin' });
+  });
+
+  it('does not duplicate sites that already exist', () => {
+    const outcome = applyMigrations(
+      {
+        settings: { savedSites: ['leetcode.com'] },
+        sites: [{ id: 'leetcode.com', pattern: 'leetcode.com', pathPrefix: null, dailyGoalMin: 15, overlayEnabled: false }]
+      },
+      1
+    );
+    expect(outcome.data.sites).toEqual([
+      {
+        id: 'leetcode.com',
+        pattern: 'leetcode.com',
+        pathPrefix: null,
+        dailyGoalMin: 15,
+        overlayEnabled: false,
+        mediaTracking: false
+      }
+    ]);
+  });
+});
+
+describe('migrateStorage', () => {
+  let fake: ReturnType<typeof createFakeStorage>;
+
+  beforeEach(() => {
+    fake = createFakeStorage(UNVERSIONED_FIXTURE);
+    // @ts-expect-error minimal chrome stub for storage tests
+    globalThis.chrome = { storage: { local: fake.area } };
+  });
+
+  afterEach(() => {
+    // @ts-expect-error cleanup test double
+    delete globalThis.chrome;
+  });
+
+  it('writes migrated data with the schema version once', async () => {
+    const first = await migrateStorage();
+    expect(first.applied).toEqual([1, 2, 3, 4, 5]);
+    expect(fake.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(fake.data.settings).not.toHaveProperty('savedSites');
+
+    const writesAfterFirstRun = fake.writes;
+    const second = await migrateStorage();
+    expect(second.applied).toEqual([]);
+    expect(fake.writes).toBe(writesAfterFirstRun);
+  });
+
+  it('writes nothing when a migration step fails', async () => {
+    const step = vi.spyOn(MIGRATIONS[1], 'migrate').mockImplementation(() => {
+      throw new Error('broken step');
+    });
+    try {
+      await expect(migrateStorage()).rejects.toThrow('broken step');
+      expect(fake.writes).toBe(0);
+      expect(fake.data).toEqual(UNVERSIONED_FIXTURE);
+    } finally {
+      step.mockRestore();
+    }
+  });
+});
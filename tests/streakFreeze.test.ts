@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { applyManualFreeze, ensureStreakProgress, refillFreezes, toIsoWeekKey } from '../src/service/activity.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { Session, Settings, Streak } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, weeklyFreezes: 2, autoFreeze: true };
+
+function sessionOn(date: string, activeMinutes = 10): Session {
+  return { id: `example.com:${date}`, siteId: 'example.com', date, activeMinutes };
+}
+
+// 2023-01-04 is a Wednesday in ISO week 2023-W01.
+const STREAK: Streak = {
+  siteId: 'example.com',
+  length: 4,
+  lastDate: '2023-01-04',
+  frozenDaysLeft: 2,
+  freezeWeek: '2023-W01'
+};
+
+describe('toIsoWeekKey', () => {
+  it('follows ISO week numbering across year boundaries', () => {
+    expect(toIsoWeekKey('2023-01-01')).toBe('2022-W52');
+    expect(toIsoWeekKey('2023-01-02')).toBe('2023-W01');
+    expect(toIsoWeekKey('2024-12-30')).toBe('2025-W01');
+  });
+});
+
+describe('streak freezes', () => {
+  it('bridges a multi-day gap when the allowance covers it', () => {
+    const [streak] = ensureStreakProgress(sessionOn('2023-01-07'), [STREAK], SETTINGS);
+    expect(streak).toMatchObject({ length: 5, lastDate: '2023-01-07', frozenDaysLeft: 0 });
+    expect(streak.frozenDates).toEqual(['2023-01-05', '2023-01-06']);
+  });
+
+  it('resets without spending freezes when coverage is only partial', () => {
+    const [streak] = ensureStreakProgress(sessionOn('2023-01-08'), [STREAK], SETTINGS);
+    expect(streak).toMatchObject({ length: 1, lastDate: '2023-01-08', frozenDaysLeft: 2 });
+    expect(streak.frozenDates).toBeUndefined();
+  });
+
+  it('does not spend freezes automatically when auto-freeze is off', () => {
+    const [streak] = ensureStreakProgress(sessionOn('2023-01-06'), [STREAK], { ...SETTINGS, autoFreeze: false });
+    expect(streak).toMatchObject({ length: 1, frozenDaysLeft: 2 });
+  });
+
+  it('refills the allowance once per ISO week', () => {
+    const spent: Streak = { ...STREAK, frozenDaysLeft: 0 };
+    expect(refillFreezes(spent, '2023-01-08', SETTINGS)).toBe(spent);
+    expect(refillFreezes(spent, '2023-01-09', SETTINGS)).toMatchObject({ frozenDaysLeft: 2, freezeWeek: '2023-W02' });
+
+    // gap spanning Sunday→Tuesday of the next week uses the refreshed allowance
+    const [streak] = ensureStreakProgress(sessionOn('2023-01-10'), [{ ...spent, lastDate: '2023-01-08' }], SETTINGS);
+    expect(streak).toMatchObject({ length: 5, frozenDaysLeft: 1, freezeWeek: '2023-W02' });
+  });
+
+  it('freezes the missed days before today on manual request', () => {
+    const frozen = applyManualFreeze(STREAK, '2023-01-07', SETTINGS);
+    expect(frozen).toMatchObject({ length: 4, lastDate: '2023-01-06', frozenDaysLeft: 0, frozenDates: ['2023-01-05', '2023-01-06'] });
+
+    const [continued] = ensureStreakProgress(sessionOn('2023-01-07'), [frozen!], SETTINGS);
+    expect(continued).toMatchObject({ length: 5, lastDate: '2023-01-07' });
+  });
+
+  it('rescues a missed yesterday with the default single freeze', () => {
+    const settings = { ...DEFAULT_SETTINGS, autoFreeze: false };
+    const streak: Streak = { siteId: 'example.com', length: 4, lastDate: '2023-01-04' };
+    const frozen = applyManualFreeze(streak, '2023-01-06', settings);
+    expect(frozen).toMatchObject({ lastDate: '2023-01-05', frozenDaysLeft: 0, frozenDates: ['2023-01-05'] });
+
+    // Practising later the same day still counts.
+    const [continued] = ensureStreakProgress(sessionOn('2023-01-06'), [frozen!], settings);
+    expect(continued).toMatchObject({ length: 5, lastDate: '2023-01-06', frozenDaysLeft: 0 });
+  });
+
+  it('refuses a manual freeze that cannot be covered', () => {
+    // Nothing is missed while today can still be practised.
+    expect(applyManualFreeze(STREAK, '2023-01-05', SETTINGS)).toBeNull();
+    expect(applyManualFreeze(STREAK, '2023-01-08', SETTINGS)).toBeNull();
+  });
+});
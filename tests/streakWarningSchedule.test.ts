@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { streakWarningWindow } from '../src/service/activity.js';
+import {
+  nextStreakWarningRetry,
+  planStreakWarnings,
+  recordStreakWarning,
+  STREAK_WARNING_RETRY_MS,
+  streakWarningAlarmName,
+  streakWarningSiteId
+} from '../src/service/streakWarnings.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { Settings, Streak } from '../src/shared/types.js';
+
+const SETTINGS: Settings = { ...DEFAULT_SETTINGS, tz: 'Europe/Berlin' };
+const LEETCODE: Streak = { siteId: 'leetcode.com', length: 4, lastDate: '2024-03-01' };
+const COURSERA: Streak = { siteId: 'coursera.org', length: 2, lastDate: '2024-02-29' };
+
+describe('streak warning schedule', () => {
+  it('opens the window at 21:00 local on the day at risk and closes it when that day ends', () => {
+    expect(streakWarningWindow(LEETCODE, SETTINGS.tz)).toEqual({
+      from: Date.parse('2024-03-02T20:00:00Z'),
+      to: Date.parse('2024-03-02T23:00:00Z')
+    });
+  });
+
+  it('keeps 21:00 local across a DST change', () => {
+    // Berlin switches to summer time on 2024-03-31
+    expect(streakWarningWindow({ ...LEETCODE, lastDate: '2024-03-30' }, SETTINGS.tz)).toEqual({
+      from: Date.parse('2024-03-31T19:00:00Z'),
+      to: Date.parse('2024-03-31T22:00:00Z')
+    });
+  });
+
+  it('plans one warning per live streak in the user zone', () => {
+    const now = Date.parse('2024-03-01T12:00:00Z');
+    expect(planStreakWarnings([LEETCODE, COURSERA, { ...LEETCODE, siteId: 'empty.org', length: 0 }], SETTINGS, {}, now)).toEqual([
+      { siteId: 'leetcode.com', when: Date.parse('2024-03-02T20:00:00Z') },
+      { siteId: 'coursera.org', when: Date.parse('2024-03-01T20:00:00Z') }
+    ]);
+    expect(planStreakWarnings([LEETCODE], { ...SETTINGS, tz: 'UTC' }, {}, now)).toEqual([
+      { siteId: 'leetcode.com', when: Date.parse('2024-03-02T21:00:00Z') }
+    ]);
+  });
+
+  it('skips warnings already delivered for the day, broken streaks and muted notifications', () => {
+    const now = Date.parse('2024-03-02T12:00:00Z');
+    expect(planStreakWarnings([LEETCODE], SETTINGS, { 'leetcode.com': '2024-03-01' }, now)).toEqual([]);
+    expect(planStreakWarnings([LEETCODE], SETTINGS, { 'leetcode.com': '2024-02-28' }, now)).toHaveLength(1);
+    expect(planStreakWarnings([LEETCODE], SETTINGS, {}, Date.parse('2024-03-03T00:00:00Z'))).toEqual([]);
+    expect(planStreakWarnings([LEETCODE], { ...SETTINGS, notifications: false }, {}, now)).toEqual([]);
+  });
+
+  it('stops retrying a blocked warning once the streak breaks', () => {
+    const end = Date.parse('2024-03-02T23:00:00Z');
+    const now = Date.parse('2024-03-02T21:00:00Z');
+    expect(nextStreakWarningRetry(LEETCODE, SETTINGS.tz, now)).toBe(now + STREAK_WARNING_RETRY_MS);
+    expect(nextStreakWarningRetry(LEETCODE, SETTINGS.tz, end - STREAK_WARNING_RETRY_MS)).toBeNull();
+  });
+
+  it('records the warned day and forgets days that moved on', () => {
+    const log = recordStreakWarning(
+      { 'coursera.org': '2024-02-28', 'gone.org': '2024-02-29' },
+      [LEETCODE, COURSERA],
+      'leetcode.com'
+    );
+    expect(log).toEqual({ 'leetcode.com': '2024-03-01' });
+    expect(recordStreakWarning(log, [COURSERA], 'coursera.org')).toEqual({ 'coursera.org': '2024-02-29' });
+  });
+
+  it('names one alarm per site', () => {
+    expect(streakWarningSiteId(streakWarningAlarmName('leetcode.com/problems'))).toBe('leetcode.com/problems');
+    expect(streakWarningSiteId('streak-snooze:leetcode.com')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { appendIdleTransition, applySystemIdle, IdleTransition } from '../src/service/idle.js';
+import { settingsFieldProblem } from '../src/shared/validation.js';
+import { ActivitySlot } from '../src/shared/types.js';
+
+const NOW = Date.UTC(2024, 2, 1, 12, 0, 0);
+const SLOT: ActivitySlot = { kind: 'input', siteId: 'leetcode.com', url: 'https://leetcode.com/', durationSec: 12, timestamp: NOW };
+
+describe('applySystemIdle', () => {
+  it('keeps slots while the machine stays active', () => {
+    expect(applySystemIdle(SLOT, 'active', [], 60)).toBe(SLOT);
+    expect(applySystemIdle(SLOT, 'active', [{ state: 'locked', at: NOW - 3_600_000 }, { state: 'active', at: NOW - 60_000 }], 60)).toBe(SLOT);
+  });
+
+  it('drops slots reported while idle or locked', () => {
+    expect(applySystemIdle(SLOT, 'idle', [], 60)).toBeNull();
+    expect(applySystemIdle(SLOT, 'locked', [], 60)).toBeNull();
+  });
+
+  it('truncates a slot to the time after the lid was opened', () => {
+    const log: IdleTransition[] = [
+      { state: 'locked', at: NOW - 40 * 60_000 },
+      { state: 'active', at: NOW - 5_000 }
+    ];
+    expect(applySystemIdle(SLOT, 'active', log, 60)?.durationSec).toBe(5);
+  });
+
+  it('backdates idle by the threshold', () => {
+    // The slot was stamped 20s ago; chrome.idle fired 10s ago with a 60s threshold,
+    // so input had already stopped 70s ago and the whole slot is idle time.
+    const late = { ...SLOT, timestamp: NOW - 20_000 };
+    const log: IdleTransition[] = [
+      { state: 'idle', at: NOW - 10_000 },
+      { state: 'active', at: NOW - 2_000 }
+    ];
+    expect(applySystemIdle(late, 'active', log, 60)).toBeNull();
+
+    const idleAfterSlot: IdleTransition[] = [
+      { state: 'idle', at: NOW },
+      { state: 'active', at: NOW + 2_000 }
+    ];
+    expect(applySystemIdle(late, 'active', idleAfterSlot, 15)).toBe(late);
+  });
+
+  it('drops a slot when the matching active transition was missed', () => {
+    expect(applySystemIdle(SLOT, 'active', [{ state: 'locked', at: NOW - 8_000 }], 60)).toBeNull();
+    const recovered = appendIdleTransition([{ state: 'locked', at: NOW - 8_000 }], { state: 'active', at: NOW });
+    expect(applySystemIdle({ ...SLOT, timestamp: NOW + 12_000 }, 'active', recovered, 60)?.durationSec).toBe(12);
+  });
+});
+
+describe('idleThresholdSeconds setting', () => {
+  it('accepts whole seconds that chrome.idle supports', () => {
+    expect(settingsFieldProblem('idleThresholdSeconds', 60)).toBeNull();
+    expect(settingsFieldProblem('idleThresholdSeconds', 10)).not.toBeNull();
+    expect(settingsFieldProblem('idleThresholdSeconds', 30.5)).not.toBeNull();
+  });
+});
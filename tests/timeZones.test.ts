@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { rebaseForTimeZoneChange, shouldWarnStreakExpiry, toDateKey } from '../src/service/activity.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { getZoneOffsetMinutes, isValidTimeZone, zonedTimeToEpoch } from '../src/shared/timezone.js';
+import { Session, Streak } from '../src/shared/types.js';
+
+describe('time zone helpers', () => {
+  it('validates IANA names and legacy offsets', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('+05:30')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('tracks DST offsets for IANA zones', () => {
+    expect(getZoneOffsetMinutes(Date.UTC(2023, 0, 15, 12), 'Europe/Berlin')).toBe(60);
+    expect(getZoneOffsetMinutes(Date.UTC(2023, 6, 15, 12), 'Europe/Berlin')).toBe(120);
+    expect(getZoneOffsetMinutes(Date.UTC(2023, 6, 15, 12), '-04:00')).toBe(-240);
+  });
+
+  it('finds local midnight on DST switch days', () => {
+    expect(zonedTimeToEpoch('2023-03-26', 0, 'Europe/Berlin')).toBe(Date.UTC(2023, 2, 25, 23));
+    expect(zonedTimeToEpoch('2023-03-27', 0, 'Europe/Berlin')).toBe(Date.UTC(2023, 2, 26, 22));
+    expect(zonedTimeToEpoch('2023-11-05', 0, 'America/New_York')).toBe(Date.UTC(2023, 10, 5, 4));
+  });
+});
+
+describe('toDateKey', () => {
+  it('uses the summer offset after the DST switch', () => {
+    // 22:30 UTC on 2023-07-01 is already 00:30 on 07-02 in Berlin (UTC+2), but not with a fixed +01:00.
+    const timestamp = Date.UTC(2023, 6, 1, 22, 30);
+    expect(toDateKey(timestamp, 'Europe/Berlin')).toBe('2023-07-02');
+    expect(toDateKey(timestamp, '+01:00')).toBe('2023-07-01');
+  });
+
+  it('keeps legacy offsets working', () => {
+    expect(toDateKey(Date.UTC(2023, 0, 1, 22, 0), '+03:00')).toBe('2023-01-02');
+    expect(toDateKey(Date.UTC(2023, 0, 1, 2, 0), '-05:00')).toBe('2022-12-31');
+  });
+});
+
+describe('shouldWarnStreakExpiry', () => {
+  it('measures the warning window from midnight in the configured zone', () => {
+    const settings = { ...DEFAULT_SETTINGS, tz: 'Asia/Tokyo' };
+    const streak: Streak = { siteId: 'example.com', length: 3, lastDate: '2023-01-01' };
+    // 21:00 in Tokyo on 2023-01-02, the day at risk, is 12:00 UTC
+    expect(shouldWarnStreakExpiry(streak, new Date(Date.UTC(2023, 0, 2, 11, 59)), settings)).toBe(false);
+    expect(shouldWarnStreakExpiry(streak, new Date(Date.UTC(2023, 0, 2, 12, 0)), settings)).toBe(true);
+  });
+});
+
+describe('rebaseForTimeZoneChange', () => {
+  const session = (date: string, activeMinutes: number): Session => ({
+    id: `example.com:${date}`,
+    siteId: 'example.com',
+    date,
+    activeMinutes
+  });
+
+  it('moves today back a day when switching west across midnight', () => {
+    // 22:00 UTC on Jan 1: already Jan 2 in Moscow, still Jan 1 in New York.
+    const now = Date.UTC(2023, 0, 1, 22, 0);
+    const result = rebaseForTimeZoneChange(
+      {
+        sessions: [session('2023-01-01', 6), session('2023-01-02', 2)],
+        streaks: [{ siteId: 'example.com', length: 4, lastDate: '2023-01-02' }]
+      },
+      'Europe/Moscow',
+      'America/New_York',
+      now
+    );
+    expect(result.sessions).toEqual([session('2023-01-01', 8)]);
+    expect(result.streaks[0]).toMatchObject({ length: 4, lastDate: '2023-01-01' });
+  });
+
+  it('shifts a streak waiting for today forward when switching east', () => {
+    const now = Date.UTC(2023, 0, 1, 22, 0);
+    const result = rebaseForTimeZoneChange(
+      {
+        sessions: [session('2023-01-01', 1)],
+        streaks: [
+          { siteId: 'example.com', length: 4, lastDate: '2022-12-31' },
+          { siteId: 'stale.com', length: 2, lastDate: '2022-12-20' }
+        ]
+      },
+      'UTC',
+      'Asia/Tokyo',
+      now
+    );
+    expect(result.sessions).toEqual([session('2023-01-02', 1)]);
+    expect(result.streaks[0].lastDate).toBe('2023-01-01');
+    expect(result.streaks[1].lastDate).toBe('2022-12-20');
+  });
+
+  it('leaves data untouched when the calendar day is the same', () => {
+    const data = { sessions: [session('2023-01-01', 1)], streaks: [] };
+    expect(rebaseForTimeZoneChange(data, 'UTC', 'Europe/Berlin', Date.UTC(2023, 0, 1, 12))).toBe(data);
+  });
+});
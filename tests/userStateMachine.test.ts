@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { createFocusRun, finishFocusRun } from '../src/service/focus.js';
+import {
+  CELEBRATION_MS,
+  createIdleState,
+  describeUserState,
+  settleUserState,
+  transitionUserState,
+  UserEvent,
+  UserState
+} from '../src/service/userState.js';
+
+const NOW = Date.parse('2024-03-01T10:00:00Z');
+const RUN = createFocusRun({ siteId: 'leetcode.com', startedAt: NOW, durationMinutes: 5 });
+const STREAK = { siteId: 'leetcode.com', length: 4, lastDate: '2024-03-01', frozenDaysLeft: 0 };
+
+function replay(events: UserEvent[], start: UserState = createIdleState(NOW)) {
+  return events.reduce(
+    (acc, event) => {
+      const transition = transitionUserState(acc.state, event, NOW);
+      return { state: transition.state, effects: [...acc.effects, ...transition.effects] };
+    },
+    { state: start, effects: [] as ReturnType<typeof transitionUserState>['effects'] }
+  );
+}
+
+describe('transitionUserState', () => {
+  it('walks Idle → Prompt → Focus → Success → Idle', () => {
+    const record = finishFocusRun(RUN, 'completed', RUN.endsAt);
+    const { state, effects } = replay([
+      { type: 'startIntent', siteId: 'leetcode.com' },
+      { type: 'startRun', run: RUN },
+      { type: 'goalReached', record, streakGrew: true }
+    ]);
+    expect(state).toMatchObject({ name: 'success', record });
+    expect(effects.map((effect) => effect.kind)).toEqual(['notification', 'sound', 'mascot', 'notification', 'sound']);
+    expect(effects).toContainEqual({ kind: 'sound', sound: 'focusSuccessSound', siteId: 'leetcode.com' });
+    expect(transitionUserState(state, { type: 'celebrate' }, NOW).state.name).toBe('idle');
+  });
+
+  it('ignores events the current state does not accept', () => {
+    const idle = createIdleState(NOW);
+    const transition = transitionUserState(idle, { type: 'startRun', run: RUN }, NOW);
+    expect(transition).toEqual({ state: idle, effects: [], changed: false });
+  });
+
+  it('keeps a paused or extended run in Focus and cancels back to Idle', () => {
+    const focus: UserState = { name: 'focus', since: NOW, run: RUN };
+    const paused = transitionUserState(focus, { type: 'runUpdated', run: { ...RUN, pausedAt: NOW + 1000 } }, NOW);
+    expect(paused.state.name).toBe('focus');
+    expect(paused.effects).toEqual([]);
+    expect(transitionUserState(paused.state, { type: 'cancel' }, NOW).state.name).toBe('idle');
+  });
+
+  it('notifies once when the run is about to end', () => {
+    const focus: UserState = { name: 'focus', since: NOW, run: RUN };
+    const ending = transitionUserState(focus, { type: 'runEnding' }, NOW);
+    expect(ending.effects).toEqual([
+      expect.objectContaining({ kind: 'notification', id: 'focus-ending' }),
+      { kind: 'sound', sound: 'focusEndingSound', siteId: 'leetcode.com' }
+    ]);
+    expect(transitionUserState(ending.state, { type: 'runEnding' }, NOW).changed).toBe(false);
+  });
+
+  it('warns once per site and returns to Idle when the streak is secured', () => {
+    const warned = replay([{ type: 'streakExpireSoon', siteId: 'leetcode.com', goalMinutes: 5 }]);
+    expect(warned.state.name).toBe('warning');
+    expect(warned.effects.map((effect) => effect.kind)).toEqual(['mascot', 'notification', 'sound']);
+    expect(warned.effects).toContainEqual({ kind: 'sound', sound: 'streakWarningSound', siteId: 'leetcode.com' });
+
+    const repeated = transitionUserState(warned.state, { type: 'streakExpireSoon', siteId: 'leetcode.com', goalMinutes: 5 }, NOW);
+    expect(repeated.changed).toBe(false);
+    expect(transitionUserState(warned.state, { type: 'streakSecured', siteId: 'leetcode.com' }, NOW).state.name).toBe('idle');
+    expect(transitionUserState(warned.state, { type: 'userAcknowledged' }, NOW).state).toMatchObject({
+      name: 'prompt',
+      siteId: 'leetcode.com'
+    });
+  });
+
+  it('lets a warning for another site interrupt a frozen day', () => {
+    const frozen = replay([{ type: 'useFreeze', streak: STREAK, bridgedDays: 1, date: '2024-03-01' }]).state;
+    const warned = transitionUserState(frozen, { type: 'streakExpireSoon', siteId: 'coursera.org', goalMinutes: 5 }, NOW);
+    expect(warned.state).toMatchObject({ name: 'warning', siteId: 'coursera.org' });
+    expect(warned.effects.map((effect) => effect.kind)).toEqual(['mascot', 'notification', 'sound']);
+  });
+
+  it('does not interrupt a focus run with warnings or freezes', () => {
+    const focus: UserState = { name: 'focus', since: NOW, run: RUN };
+    expect(transitionUserState(focus, { type: 'streakExpireSoon', siteId: 'leetcode.com', goalMinutes: 5 }, NOW).changed).toBe(false);
+    expect(
+      transitionUserState(focus, { type: 'useFreeze', streak: STREAK, bridgedDays: 1, date: '2024-03-01' }, NOW).changed
+    ).toBe(false);
+  });
+
+  it('still announces a freeze spent during a run or a celebration', () => {
+    const record = finishFocusRun(RUN, 'completed', RUN.endsAt);
+    const states: UserState[] = [
+      { name: 'focus', since: NOW, run: RUN },
+      { name: 'success', since: NOW, record, streakGrew: false }
+    ];
+    for (const state of states) {
+      const transition = transitionUserState(state, { type: 'useFreeze', streak: STREAK, bridgedDays: 1, date: '2024-03-01' }, NOW);
+      expect(transition.state).toBe(state);
+      expect(transition.effects).toEqual([
+        expect.objectContaining({ kind: 'mascot', animation: 'streak-saved', siteId: 'leetcode.com' }),
+        expect.objectContaining({ kind: 'notification', id: 'streak-saved-leetcode.com', title: 'Стрик спасён! ❄️' })
+      ]);
+    }
+  });
+
+  it('promises a longer streak only when the run extended it', () => {
+    const focus: UserState = { name: 'focus', since: NOW, run: RUN };
+    const record = finishFocusRun(RUN, 'completed', RUN.endsAt);
+    const message = (streakGrew: boolean) => {
+      const { state, effects } = transitionUserState(focus, { type: 'goalReached', record, streakGrew }, NOW);
+      const notification = effects.find((effect) => effect.kind === 'notification');
+      return [notification?.kind === 'notification' ? notification.message : null, describeUserState(state).caption];
+    };
+    expect(message(true)).toEqual(['Жарко! 5 минут фокуса на leetcode.com. Серия +1', 'Жарко! Серия +1 🔥']);
+    expect(message(false)).toEqual(['Жарко! 5 минут фокуса на leetcode.com.', 'Жарко! Заезд закрыт 🔥']);
+  });
+});
+
+describe('settleUserState', () => {
+  it('ends the celebration after a minute', () => {
+    const success: UserState = { name: 'success', since: NOW, record: finishFocusRun(RUN, 'completed', RUN.endsAt), streakGrew: true };
+    expect(settleUserState(success, NOW + 1000, '2024-03-01').changed).toBe(false);
+    expect(settleUserState(success, NOW + CELEBRATION_MS, '2024-03-01').state.name).toBe('idle');
+  });
+
+  it('leaves Frozen on the next day', () => {
+    const frozen = replay([{ type: 'useFreeze', streak: STREAK, bridgedDays: 1, date: '2024-03-01' }]).state;
+    expect(frozen.name).toBe('frozen');
+    expect(settleUserState(frozen, NOW, '2024-03-01').changed).toBe(false);
+    expect(settleUserState(frozen, NOW, '2024-03-02').state.name).toBe('idle');
+  });
+});
+
+describe('describeUserState', () => {
+  it('picks the Lottie animation for each state', () => {
+    expect(describeUserState(createIdleState(NOW)).animation).toBe('idle-chill');
+    expect(describeUserState(createIdleState(NOW), true).animation).toBe('sleep');
+    expect(describeUserState({ name: 'focus', since: NOW, run: RUN }).animation).toBe('focus-on');
+    expect(describeUserState({ name: 'warning', since: NOW, siteId: 'leetcode.com', goalMinutes: 10 })).toEqual({
+      animation: 'warning-expire',
+      caption: 'Серия на волоске — спасём за 10 минут?'
+    });
+  });
+});
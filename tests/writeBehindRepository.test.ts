@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRepository, FLUSH_DEBOUNCE_MS } from '../src/service/repository.js';
+import { DEFAULT_SETTINGS } from '../src/shared/defaults.js';
+import { Session } from '../src/shared/types.js';
+
+const SESSION: Session = { id: 'leetcode.com:2024-03-01', siteId: 'leetcode.com', date: '2024-03-01', activeMinutes: 1 };
+
+function createFakeBackend(initial: Record<string, unknown> = {}) {
+  let data: Record<string, unknown> = structuredClone(initial);
+  const reads: string[][] = [];
+  const writes: Array<Record<string, unknown>> = [];
+  return {
+    get data() {
+      return data;
+    },
+    reads,
+    writes,
+    async read(keys: string[]) {
+      reads.push(keys);
+      return Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, structuredClone(data[key])]));
+    },
+    async write(items: Record<string, unknown>) {
+      writes.push(structuredClone(items));
+      data = { ...data, ...structuredClone(items) };
+    },
+    async querySessions() {
+      return [];
+    }
+  };
+}
+
+describe('createRepository', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads once and keeps an empty store loaded', async () => {
+    const backend = createFakeBackend();
+    const repository = createRepository(backend);
+    expect(repository.isLoaded()).toBe(false);
+    expect(() => repository.get('sessions')).toThrow();
+
+    await Promise.all([repository.load(), repository.load()]);
+    await repository.load();
+    expect(repository.isLoaded()).toBe(true);
+    expect(repository.get('sessions')).toEqual([]);
+    expect(repository.get('settings')).toEqual(DEFAULT_SETTINGS);
+    expect(backend.reads).toHaveLength(1);
+  });
+
+  it('batches updates into one debounced write of the changed keys', async () => {
+    const backend = createFakeBackend({ sites: [], streaks: [] });
+    const repository = createRepository(backend);
+    await repository.load();
+
+    repository.update({ sessions: [SESSION] });
+    repository.update({ sessions: [{ ...SESSION, activeMinutes: 2 }] });
+    repository.update({ streaks: repository.get('streaks') });
+    expect(repository.dirtyKeys()).toEqual(['sessions']);
+    expect(backend.writes).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(FLUSH_DEBOUNCE_MS);
+    expect(backend.writes).toEqual([{ sessions: [{ ...SESSION, activeMinutes: 2 }] }]);
+    expect(repository.dirtyKeys()).toEqual([]);
+  });
+
+  it('flushes pending changes on demand', async () => {
+    const backend = createFakeBackend();
+    const repository = createRepository(backend);
+    await repository.load();
+
+    repository.update({ settings: { ...DEFAULT_SETTINGS, notifications: false } });
+    await repository.flush();
+    expect(backend.data.settings).toMatchObject({ notifications: false });
+
+    await vi.advanceTimersByTimeAsync(FLUSH_DEBOUNCE_MS);
+    expect(backend.writes).toHaveLength(1);
+  });
+
+  it('keeps keys dirty when a write fails', async () => {
+    const backend = createFakeBackend();
+    const repository = createRepository(backend);
+    await repository.load();
+    const write = vi.spyOn(backend, 'write').mockRejectedValueOnce(new Error('quota'));
+
+    repository.update({ sessions: [SESSION] });
+    await expect(repository.flush()).rejects.toThrow('quota');
+    expect(repository.dirtyKeys()).toEqual(['sessions']);
+
+    await repository.flush();
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(backend.data.sessions).toEqual([SESSION]);
+  });
+
+  it('does not reload a key over unsaved changes', async () => {
+    const backend = createFakeBackend({ settings: { notifications: true } });
+    const repository = createRepository(backend);
+    await repository.load();
+
+    repository.update({ settings: { ...repository.get('settings'), audioEnabled: false } });
+    await backend.write({ settings: { notifications: false } });
+    await repository.reload('settings');
+    expect(repository.get('settings')).toMatchObject({ notifications: true, audioEnabled: false });
+
+    await repository.flush();
+    await backend.write({ settings: { notifications: false } });
+    await repository.reload('settings');
+    expect(repository.get('settings')).toMatchObject({ notifications: false, audioEnabled: DEFAULT_SETTINGS.audioEnabled });
+  });
+});